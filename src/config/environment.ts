@@ -8,17 +8,71 @@ import { z } from 'zod';
 // Load environment variables
 dotenv.config();
 
+// Per-user spending limit overrides, e.g. {"alice@example.com":{"daily":150}}
+const spendingOverridesSchema = z.record(
+  z.object({
+    perOrder: z.number().min(0).optional(),
+    daily: z.number().min(0).optional(),
+    weekly: z.number().min(0).optional(),
+    maxTipPercent: z.number().min(0).optional(),
+  })
+);
+
+// Retired encryption keys still needed to read older records, e.g. {"1":"<32 characters>"}
+const previousKeysSchema = z.record(
+  z.string().regex(/^\d+$/),
+  z.string().length(32, 'Encryption key must be exactly 32 characters')
+);
+
+// Retired JWT signing keys still accepted during rotation, e.g. {"2026-01":"<secret>"}
+const previousJwtSecretsSchema = z.record(
+  z.string().min(32, 'JWT secret must be at least 32 characters')
+);
+
 // Environment schema
 const envSchema = z.object({
   // Server
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().transform(Number).default('5001'),
   LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
+  MCP_TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+  MCP_HTTP_PATH: z.string().startsWith('/', 'MCP HTTP path must start with /').default('/mcp'),
 
   // Security
   JWT_SECRET: z.string().min(32, 'JWT secret must be at least 32 characters'),
+  JWT_KEY_ID: z.string().min(1).default('primary'),
+  JWT_PREVIOUS_SECRETS: z
+    .string()
+    .default('{}')
+    .transform((v, ctx) => {
+      try {
+        return previousJwtSecretsSchema.parse(JSON.parse(v));
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Previous JWT secrets must be a JSON object of key ID to secret',
+        });
+        return z.NEVER;
+      }
+    }),
   SESSION_SECRET: z.string().min(32, 'Session secret must be at least 32 characters'),
   ENCRYPTION_KEY: z.string().length(32, 'Encryption key must be exactly 32 characters'),
+  ENCRYPTION_KEY_VERSION: z.string().transform(Number).default('1'),
+  ENCRYPTION_PREVIOUS_KEYS: z
+    .string()
+    .default('{}')
+    .transform((v, ctx) => {
+      try {
+        return previousKeysSchema.parse(JSON.parse(v));
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            'Previous encryption keys must be a JSON object of key version to 32-character key',
+        });
+        return z.NEVER;
+      }
+    }),
 
   // Redis
   REDIS_HOST: z.string().default('localhost'),
@@ -31,6 +85,11 @@ const envSchema = z.object({
   SESSION_LIFETIME_MINUTES: z.string().transform(Number).default('60'),
   MAX_SESSIONS: z.string().transform(Number).default('100'),
   SESSION_CLEANUP_INTERVAL_MINUTES: z.string().transform(Number).default('5'),
+  SESSION_MAX_LIFETIME_MINUTES: z.string().transform(Number).default('720'),
+  SESSION_SLIDING_EXPIRY: z
+    .string()
+    .transform((v) => v === 'true')
+    .default('false'),
 
   // n8n
   N8N_BASE_URL: z.string().url().default('http://localhost:5678'),
@@ -39,6 +98,42 @@ const envSchema = z.object({
   MANUAL_LOGIN_TIMEOUT_SECONDS: z.string().transform(Number).default('10'),
   LOGIN_STATUS_TIMEOUT_SECONDS: z.string().transform(Number).default('30'),
 
+  // Checkout
+  SCHEDULE_MIN_LEAD_MINUTES: z.string().transform(Number).default('30'),
+  SCHEDULE_MAX_DAYS_AHEAD: z.string().transform(Number).default('7'),
+  IDEMPOTENCY_TTL_HOURS: z.string().transform(Number).default('24'),
+  IDEMPOTENCY_PROCESSING_TTL_SECONDS: z.string().transform(Number).default('300'),
+
+  // Spending limits (0 disables a limit)
+  SPENDING_LIMIT_PER_ORDER: z.string().transform(Number).default('0'),
+  SPENDING_LIMIT_DAILY: z.string().transform(Number).default('0'),
+  SPENDING_LIMIT_WEEKLY: z.string().transform(Number).default('0'),
+  SPENDING_MAX_TIP_PERCENT: z.string().transform(Number).default('0'),
+  SPENDING_LIMIT_OVERRIDES: z
+    .string()
+    .default('{}')
+    .transform((v, ctx) => {
+      try {
+        return spendingOverridesSchema.parse(JSON.parse(v));
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Spending limit overrides must be a JSON object keyed by username',
+        });
+        return z.NEVER;
+      }
+    }),
+
+  // Menu cache
+  MENU_CACHE_TTL_SECONDS: z.string().transform(Number).default('3600'),
+
+  // Geocoding
+  GEOCODER_PROVIDER: z.enum(['none', 'offline', 'http']).default('none'),
+  GEOCODER_LOOKUP_FILE: z.string().default('./data/geocoder-lookup.json'),
+  GEOCODER_HTTP_URL: z.string().url().default('https://nominatim.openstreetmap.org/search'),
+  GEOCODER_HTTP_API_KEY: z.string().optional(),
+  GEOCODER_TIMEOUT_MS: z.string().transform(Number).default('5000'),
+
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: z.string().transform(Number).default('60000'),
   RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).default('100'),
@@ -119,6 +214,8 @@ export const serverConfig = {
   port: config.PORT,
   env: config.NODE_ENV,
   logLevel: config.LOG_LEVEL,
+  transport: config.MCP_TRANSPORT,
+  httpPath: config.MCP_HTTP_PATH,
   isProduction: config.NODE_ENV === 'production',
   isDevelopment: config.NODE_ENV === 'development',
   isTest: config.NODE_ENV === 'test',
@@ -126,8 +223,12 @@ export const serverConfig = {
 
 export const securityConfig = {
   jwtSecret: config.JWT_SECRET,
+  jwtKeyId: config.JWT_KEY_ID,
+  previousJwtSecrets: config.JWT_PREVIOUS_SECRETS,
   sessionSecret: config.SESSION_SECRET,
   encryptionKey: config.ENCRYPTION_KEY,
+  encryptionKeyVersion: config.ENCRYPTION_KEY_VERSION,
+  previousEncryptionKeys: config.ENCRYPTION_PREVIOUS_KEYS,
 };
 
 export const redisConfig = {
@@ -142,6 +243,8 @@ export const sessionConfig = {
   lifetimeMinutes: config.SESSION_LIFETIME_MINUTES,
   maxSessions: config.MAX_SESSIONS,
   cleanupIntervalMinutes: config.SESSION_CLEANUP_INTERVAL_MINUTES,
+  maxLifetimeMinutes: config.SESSION_MAX_LIFETIME_MINUTES,
+  slidingExpiry: config.SESSION_SLIDING_EXPIRY,
 };
 
 export const n8nConfig = {
@@ -154,6 +257,35 @@ export const n8nConfig = {
   },
 };
 
+export const checkoutConfig = {
+  scheduleMinLeadMinutes: config.SCHEDULE_MIN_LEAD_MINUTES,
+  scheduleMaxDaysAhead: config.SCHEDULE_MAX_DAYS_AHEAD,
+  idempotencyTtlHours: config.IDEMPOTENCY_TTL_HOURS,
+  idempotencyProcessingTtlSeconds: config.IDEMPOTENCY_PROCESSING_TTL_SECONDS,
+};
+
+export const spendingConfig = {
+  limits: {
+    perOrder: config.SPENDING_LIMIT_PER_ORDER,
+    daily: config.SPENDING_LIMIT_DAILY,
+    weekly: config.SPENDING_LIMIT_WEEKLY,
+    maxTipPercent: config.SPENDING_MAX_TIP_PERCENT,
+  },
+  overrides: config.SPENDING_LIMIT_OVERRIDES,
+};
+
+export const menuConfig = {
+  cacheTtlSeconds: config.MENU_CACHE_TTL_SECONDS,
+};
+
+export const geocoderConfig = {
+  provider: config.GEOCODER_PROVIDER,
+  lookupFile: config.GEOCODER_LOOKUP_FILE,
+  httpUrl: config.GEOCODER_HTTP_URL,
+  httpApiKey: config.GEOCODER_HTTP_API_KEY,
+  timeout: config.GEOCODER_TIMEOUT_MS,
+};
+
 export const rateLimitConfig = {
   windowMs: config.RATE_LIMIT_WINDOW_MS,
   maxRequests: config.RATE_LIMIT_MAX_REQUESTS,
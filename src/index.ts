@@ -6,6 +6,7 @@
 import { mcpServer } from './server/mcpServer.js';
 import { createLogger } from './utils/logger.js';
 import { serverConfig } from './config/environment.js';
+import { sessionService } from './services/sessionService.js';
 
 // Import tools
 import {
@@ -15,14 +16,58 @@ import {
   completeLoginHandler,
   logoutTool,
   logoutHandler,
+  extendSessionTool,
+  extendSessionHandler,
 } from './tools/login.js';
+import { searchRestaurantsTool, searchRestaurantsHandler } from './tools/searchRestaurants.js';
+import {
+  getMenuTool,
+  getMenuHandler,
+  invalidateMenuTool,
+  invalidateMenuHandler,
+} from './tools/getMenu.js';
+import { checkAvailabilityTool, checkAvailabilityHandler } from './tools/checkAvailability.js';
 import { addItemsTool, addItemsHandler } from './tools/addItems.js';
+import {
+  viewCartTool,
+  viewCartHandler,
+  updateCartItemTool,
+  updateCartItemHandler,
+  removeCartItemTool,
+  removeCartItemHandler,
+  clearCartTool,
+  clearCartHandler,
+} from './tools/cart.js';
 import { setAddressTool, setAddressHandler } from './tools/setAddress.js';
+import {
+  saveAddressTool,
+  saveAddressHandler,
+  listAddressesTool,
+  listAddressesHandler,
+  deleteAddressTool,
+  deleteAddressHandler,
+} from './tools/addressBook.js';
+import {
+  listPaymentMethodsTool,
+  listPaymentMethodsHandler,
+  setPaymentAliasTool,
+  setPaymentAliasHandler,
+  deletePaymentAliasTool,
+  deletePaymentAliasHandler,
+} from './tools/paymentMethods.js';
 import { checkoutTool, checkoutHandler } from './tools/checkout.js';
+import { checkoutPreviewTool, checkoutPreviewHandler } from './tools/checkoutPreview.js';
+import { orderStatusTool, orderStatusHandler } from './tools/orderStatus.js';
+import { cancelOrderTool, cancelOrderHandler } from './tools/cancelOrder.js';
+import { listOrdersTool, listOrdersHandler } from './tools/listOrders.js';
+import { reorderTool, reorderHandler } from './tools/reorder.js';
 
 // Import resources
 import { healthCheckResource, healthCheckHandler } from './resources/healthCheck.js';
 import { sessionInfoResource, sessionInfoHandler } from './resources/sessionInfo.js';
+import { orderTrackingResource, orderTrackingHandler } from './resources/orderTracking.js';
+import { orderHistoryResource, orderHistoryHandler } from './resources/orderHistory.js';
+import { restaurantMenuResource, restaurantMenuHandler } from './resources/restaurantMenu.js';
 
 const logger = createLogger('main');
 
@@ -52,6 +97,42 @@ function registerTools(): void {
     logoutHandler
   );
 
+  mcpServer.registerTool(
+    extendSessionTool.name,
+    extendSessionTool.description,
+    extendSessionTool.inputSchema,
+    extendSessionHandler
+  );
+
+  // Discovery tools
+  mcpServer.registerTool(
+    searchRestaurantsTool.name,
+    searchRestaurantsTool.description,
+    searchRestaurantsTool.inputSchema,
+    searchRestaurantsHandler
+  );
+
+  mcpServer.registerTool(
+    getMenuTool.name,
+    getMenuTool.description,
+    getMenuTool.inputSchema,
+    getMenuHandler
+  );
+
+  mcpServer.registerTool(
+    invalidateMenuTool.name,
+    invalidateMenuTool.description,
+    invalidateMenuTool.inputSchema,
+    invalidateMenuHandler
+  );
+
+  mcpServer.registerTool(
+    checkAvailabilityTool.name,
+    checkAvailabilityTool.description,
+    checkAvailabilityTool.inputSchema,
+    checkAvailabilityHandler
+  );
+
   // Order tools
   mcpServer.registerTool(
     addItemsTool.name,
@@ -60,6 +141,35 @@ function registerTools(): void {
     addItemsHandler
   );
 
+  // Cart tools
+  mcpServer.registerTool(
+    viewCartTool.name,
+    viewCartTool.description,
+    viewCartTool.inputSchema,
+    viewCartHandler
+  );
+
+  mcpServer.registerTool(
+    updateCartItemTool.name,
+    updateCartItemTool.description,
+    updateCartItemTool.inputSchema,
+    updateCartItemHandler
+  );
+
+  mcpServer.registerTool(
+    removeCartItemTool.name,
+    removeCartItemTool.description,
+    removeCartItemTool.inputSchema,
+    removeCartItemHandler
+  );
+
+  mcpServer.registerTool(
+    clearCartTool.name,
+    clearCartTool.description,
+    clearCartTool.inputSchema,
+    clearCartHandler
+  );
+
   mcpServer.registerTool(
     setAddressTool.name,
     setAddressTool.description,
@@ -67,6 +177,57 @@ function registerTools(): void {
     setAddressHandler
   );
 
+  // Address book tools
+  mcpServer.registerTool(
+    saveAddressTool.name,
+    saveAddressTool.description,
+    saveAddressTool.inputSchema,
+    saveAddressHandler
+  );
+
+  mcpServer.registerTool(
+    listAddressesTool.name,
+    listAddressesTool.description,
+    listAddressesTool.inputSchema,
+    listAddressesHandler
+  );
+
+  mcpServer.registerTool(
+    deleteAddressTool.name,
+    deleteAddressTool.description,
+    deleteAddressTool.inputSchema,
+    deleteAddressHandler
+  );
+
+  // Payment method tools
+  mcpServer.registerTool(
+    listPaymentMethodsTool.name,
+    listPaymentMethodsTool.description,
+    listPaymentMethodsTool.inputSchema,
+    listPaymentMethodsHandler
+  );
+
+  mcpServer.registerTool(
+    setPaymentAliasTool.name,
+    setPaymentAliasTool.description,
+    setPaymentAliasTool.inputSchema,
+    setPaymentAliasHandler
+  );
+
+  mcpServer.registerTool(
+    deletePaymentAliasTool.name,
+    deletePaymentAliasTool.description,
+    deletePaymentAliasTool.inputSchema,
+    deletePaymentAliasHandler
+  );
+
+  mcpServer.registerTool(
+    checkoutPreviewTool.name,
+    checkoutPreviewTool.description,
+    checkoutPreviewTool.inputSchema,
+    checkoutPreviewHandler
+  );
+
   mcpServer.registerTool(
     checkoutTool.name,
     checkoutTool.description,
@@ -74,6 +235,34 @@ function registerTools(): void {
     checkoutHandler
   );
 
+  mcpServer.registerTool(
+    orderStatusTool.name,
+    orderStatusTool.description,
+    orderStatusTool.inputSchema,
+    orderStatusHandler
+  );
+
+  mcpServer.registerTool(
+    cancelOrderTool.name,
+    cancelOrderTool.description,
+    cancelOrderTool.inputSchema,
+    cancelOrderHandler
+  );
+
+  mcpServer.registerTool(
+    listOrdersTool.name,
+    listOrdersTool.description,
+    listOrdersTool.inputSchema,
+    listOrdersHandler
+  );
+
+  mcpServer.registerTool(
+    reorderTool.name,
+    reorderTool.description,
+    reorderTool.inputSchema,
+    reorderHandler
+  );
+
   logger.info('All tools registered');
 }
 
@@ -97,6 +286,30 @@ function registerResources(): void {
     sessionInfoResource.mimeType
   );
 
+  mcpServer.registerResourceTemplate(
+    orderTrackingResource.uriTemplate,
+    orderTrackingResource.name,
+    orderTrackingResource.description,
+    orderTrackingHandler,
+    orderTrackingResource.mimeType
+  );
+
+  mcpServer.registerResourceTemplate(
+    orderHistoryResource.uriTemplate,
+    orderHistoryResource.name,
+    orderHistoryResource.description,
+    orderHistoryHandler,
+    orderHistoryResource.mimeType
+  );
+
+  mcpServer.registerResourceTemplate(
+    restaurantMenuResource.uriTemplate,
+    restaurantMenuResource.name,
+    restaurantMenuResource.description,
+    restaurantMenuHandler,
+    restaurantMenuResource.mimeType
+  );
+
   // Note: userSessionsResource would need query parameter support in a full implementation
   // For now, we'll skip this resource as it requires username parameter
   // mcpServer.registerResource(
@@ -154,22 +367,55 @@ Shall I proceed with this order?`,
   mcpServer.registerPrompt(
     'reorder',
     'Reorder from previous order',
-    [{ name: 'orderNumber', description: 'Previous order number', required: false }],
+    [
+      { name: 'sessionId', description: 'Active session ID from login', required: true },
+      { name: 'token', description: 'Token from login', required: true },
+      { name: 'orderNumber', description: 'Previous order number', required: false },
+    ],
     async (args) => {
+      const orderLabel = args.orderNumber ? `order #${args.orderNumber}` : 'my last order';
+      const result = await reorderHandler({
+        sessionId: args.sessionId,
+        token: args.token,
+        orderNumber: args.orderNumber,
+      });
+
+      let text: string;
+      if (result.status === 'success') {
+        const plan = result.data;
+        const unmatched =
+          plan.unmatchedItems.length > 0
+            ? `\n\nThese items could not be matched and will be skipped:\n${plan.unmatchedItems
+                .map((u: any) => `- ${u.item.name || '(unnamed item)'}: ${u.reason}`)
+                .join('\n')}`
+            : '';
+
+        text = `I found order #${plan.sourceOrder.orderNumber} from ${plan.sourceOrder.restaurantName}. To place it again I'll run these steps in order, adding the token from login to each call:
+${plan.steps
+  .map(
+    (step: any, index: number) =>
+      `${index + 1}. ${step.tool}\n\`\`\`json\n${JSON.stringify(step.arguments, null, 2)}\n\`\`\``
+  )
+  .join('\n')}${unmatched}
+
+Shall I proceed with this order?`;
+      } else {
+        text = `I couldn't prepare a reorder of ${orderLabel}: ${result.message}`;
+      }
+
       return [
         {
           role: 'user',
           content: {
             type: 'text',
-            text: `Reorder ${args.orderNumber ? `order #${args.orderNumber}` : 'my last order'}`,
+            text: `Reorder ${orderLabel}`,
           },
         },
         {
           role: 'assistant',
           content: {
             type: 'text',
-            text: `I'll help you reorder ${args.orderNumber ? `order #${args.orderNumber}` : 'your last order'}. 
-Let me retrieve the order details and place the same order again.`,
+            text,
           },
         },
       ];
@@ -198,6 +444,9 @@ async function main(): Promise<void> {
     registerResources();
     registerPrompts();
 
+    // Index sessions stored before the expiry index existed
+    await sessionService.indexExistingSessions();
+
     // Start the server
     await mcpServer.start();
 
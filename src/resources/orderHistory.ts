@@ -0,0 +1,56 @@
+/**
+ * Order History Resource for MCP Server
+ */
+
+import { SessionAuthSchema, SessionStatus } from '../types/session.js';
+import { sessionService } from '../services/sessionService.js';
+import { orderService } from '../services/orderService.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('orderHistoryResource');
+
+// Number of most recent orders returned by the resource
+const RECENT_ORDER_LIMIT = 20;
+
+/**
+ * Get order history handler
+ */
+export async function orderHistoryHandler(args: {
+  sessionId?: string;
+  token?: string;
+}): Promise<any> {
+  try {
+    const input = SessionAuthSchema.parse(args);
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const { orders, total } = await orderService.listOrders(session.username, {
+      offset: 0,
+      limit: RECENT_ORDER_LIMIT,
+    });
+
+    logger.debug({ count: orders.length, total }, 'Retrieved order history');
+
+    return {
+      username: session.username,
+      orders,
+      totalOrders: total,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error({ error }, 'Order history error');
+    return handleError(error);
+  }
+}
+
+// Export resource definition
+export const orderHistoryResource = {
+  uriTemplate: 'ubereats://orders{?sessionId,token}',
+  name: 'Order History',
+  description: 'Most recent orders placed by the session user (use ubereats_list_orders to page)',
+  mimeType: 'application/json',
+};
@@ -0,0 +1,47 @@
+/**
+ * Order Tracking Resource for MCP Server
+ */
+
+import { OrderStatusSchema } from '../types/ubereats.js';
+import { orderService } from '../services/orderService.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError } from '../utils/errorHandler.js';
+
+const logger = createLogger('orderTrackingResource');
+
+/**
+ * Get live order tracking handler
+ */
+export async function orderTrackingHandler(args: {
+  orderNumber?: string;
+  sessionId?: string;
+  token?: string;
+}): Promise<any> {
+  try {
+    const input = OrderStatusSchema.parse(args);
+
+    const orderStatus = await orderService.getOrderStatus(
+      input.sessionId,
+      input.token,
+      input.orderNumber
+    );
+
+    logger.debug({ orderNumber: input.orderNumber }, 'Retrieved order tracking');
+
+    return {
+      order: orderStatus,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error({ error }, 'Order tracking error');
+    return handleError(error);
+  }
+}
+
+// Export resource definition
+export const orderTrackingResource = {
+  uriTemplate: 'ubereats://orders/{orderNumber}{?sessionId,token}',
+  name: 'Order Tracking',
+  description: 'Live status of a placed order (stage, ETA, courier, last update)',
+  mimeType: 'application/json',
+};
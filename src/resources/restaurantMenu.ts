@@ -0,0 +1,55 @@
+/**
+ * Restaurant Menu Resource for MCP Server
+ */
+
+import { GetMenuSchema } from '../types/ubereats.js';
+import { SessionStatus } from '../types/session.js';
+import { sessionService } from '../services/sessionService.js';
+import { restaurantService } from '../services/restaurantService.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('restaurantMenuResource');
+
+/**
+ * Get restaurant menu handler
+ */
+export async function restaurantMenuHandler(args: {
+  name?: string;
+  sessionId?: string;
+  token?: string;
+}): Promise<any> {
+  try {
+    const input = GetMenuSchema.parse({
+      sessionId: args.sessionId,
+      token: args.token,
+      restaurantName: args.name,
+    });
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const { menu, cached } = await restaurantService.getMenu(session, input.restaurantName);
+
+    logger.debug({ restaurantName: input.restaurantName, cached }, 'Retrieved restaurant menu');
+
+    return {
+      ...menu,
+      cached,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error({ error }, 'Restaurant menu error');
+    return handleError(error);
+  }
+}
+
+// Export resource definition
+export const restaurantMenuResource = {
+  uriTemplate: 'ubereats://restaurants/{name}/menu{?sessionId,token}',
+  name: 'Restaurant Menu',
+  description: 'Cached restaurant menu with categories, items, prices and modifier groups',
+  mimeType: 'application/json',
+};
@@ -0,0 +1,24 @@
+/**
+ * Re-encrypt stored sessions with the current ENCRYPTION_KEY
+ *
+ * Run after rotating keys: npm run sessions:reencrypt
+ */
+
+import { sessionService } from '../services/sessionService.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('reencryptSessions');
+
+try {
+  const result = await sessionService.reencryptSessions();
+  logger.info(result, 'Sessions re-encrypted');
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+} catch (error) {
+  logger.error({ err: error }, 'Session re-encryption failed');
+  process.exitCode = 1;
+} finally {
+  await sessionService.cleanup();
+}
@@ -0,0 +1,34 @@
+/**
+ * Revoke a login token by its full JWT or its ID (jti)
+ *
+ * Usage: npm run tokens:revoke -- <token-or-jti>
+ */
+
+import { tokenService } from '../services/tokenService.js';
+import { redis } from '../utils/redis.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('revokeToken');
+
+const [value] = process.argv.slice(2);
+
+try {
+  if (!value) {
+    throw new Error('Usage: npm run tokens:revoke -- <token-or-jti>');
+  }
+
+  // A JWT has three dot-separated parts; anything else is taken to be a token ID
+  if (value.split('.').length === 3) {
+    const claims = await tokenService.revokeToken(value, 'admin');
+    if (!claims) {
+      throw new Error('Token has no ID; it stays valid until it expires');
+    }
+  } else {
+    await tokenService.revoke(value, 'admin');
+  }
+} catch (error) {
+  logger.error({ err: error }, 'Token revocation failed');
+  process.exitCode = 1;
+} finally {
+  await redis.quit();
+}
@@ -0,0 +1,237 @@
+/**
+ * Streamable HTTP Transport Server
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server as HttpServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { serverConfig, corsConfig } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('httpServer');
+
+// Maximum accepted JSON-RPC request body size
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+}
+
+export class McpHttpServer {
+  private httpServer?: HttpServer;
+  private sessions: Map<string, HttpSession> = new Map();
+
+  /**
+   * @param createServer Factory returning a fresh MCP server per client session
+   */
+  constructor(private readonly createServer: () => Server) {}
+
+  /**
+   * Start listening on the configured port
+   */
+  async start(): Promise<void> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error({ err: error }, 'HTTP request handling failed');
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(serverConfig.port, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+
+    logger.info(
+      { port: serverConfig.port, path: serverConfig.httpPath },
+      'Streamable HTTP transport listening'
+    );
+  }
+
+  /**
+   * Close all client sessions and stop listening
+   */
+  async close(): Promise<void> {
+    for (const [sessionId, session] of this.sessions) {
+      await session.transport.close();
+      await session.server.close();
+      this.sessions.delete(sessionId);
+    }
+
+    const httpServer = this.httpServer;
+    if (httpServer) {
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      this.httpServer = undefined;
+    }
+
+    logger.info('Streamable HTTP transport closed');
+  }
+
+  /**
+   * Get number of connected client sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Route an incoming HTTP request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    this.applyCors(req, res);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (path !== serverConfig.httpPath) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await this.readJsonBody(req, res);
+      if (body === undefined) return;
+
+      if (existing) {
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!sessionId && isInitializeRequest(body)) {
+        await this.startSession(req, res, body);
+        return;
+      }
+
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE, OPTIONS' }).end();
+  }
+
+  /**
+   * Create a transport and MCP server for a new client session
+   */
+  private async startSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { transport, server });
+        logger.info({ mcpSessionId: sessionId }, 'HTTP client session initialized');
+      },
+    });
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        logger.info({ mcpSessionId: sessionId }, 'HTTP client session closed');
+        server.close().catch((error) => {
+          logger.error({ err: error }, 'Failed to close MCP server for HTTP session');
+        });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Apply CORS headers based on corsConfig
+   */
+  private applyCors(req: IncomingMessage, res: ServerResponse): void {
+    const requestOrigin = req.headers.origin;
+
+    if (corsConfig.origin === true) {
+      res.setHeader('Access-Control-Allow-Origin', requestOrigin || '*');
+    } else if (
+      requestOrigin &&
+      Array.isArray(corsConfig.origin) &&
+      corsConfig.origin.includes(requestOrigin)
+    ) {
+      res.setHeader('Access-Control-Allow-Origin', requestOrigin);
+    } else {
+      return;
+    }
+
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      'Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+    );
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+
+    if (corsConfig.credentials && requestOrigin) {
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+    }
+  }
+
+  /**
+   * Read and parse a JSON request body, replying with an error if it is invalid
+   */
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(res, 413, -32600, 'Request body too large');
+        return undefined;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: Invalid JSON');
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a JSON-RPC error response
+   */
+  private sendJsonRpcError(
+    res: ServerResponse,
+    statusCode: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+}
@@ -4,9 +4,11 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
   ListPromptsRequestSchema,
@@ -15,17 +17,43 @@ import {
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import { createLogger } from '../utils/logger.js';
+import { serverConfig, sessionConfig } from '../config/environment.js';
+import { sessionService } from '../services/sessionService.js';
+import { McpHttpServer } from './httpServer.js';
 
 const logger = createLogger('mcpServer');
 
+// Tools that end the session or set its expiry themselves
+const SLIDING_EXPIRY_EXCLUDED_TOOLS = new Set(['ubereats_logout', 'ubereats_extend_session']);
+
+/**
+ * Decode a percent-encoded URI template value, keeping malformed encodings as given
+ */
+function decodeTemplateValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
 export class UberEatsMCPServer {
   private server: Server;
   private tools: Map<string, any> = new Map();
   private resources: Map<string, any> = new Map();
+  private resourceTemplates: Map<string, any> = new Map();
   private prompts: Map<string, any> = new Map();
+  private httpServer?: McpHttpServer;
 
   constructor() {
-    this.server = new Server(
+    this.server = this.createServer();
+  }
+
+  /**
+   * Create an MCP server instance backed by the shared tool, resource and prompt registries
+   */
+  createServer(): Server {
+    const server = new Server(
       {
         name: 'ubereats-mcp-server',
         version: '1.0.0',
@@ -39,15 +67,22 @@ export class UberEatsMCPServer {
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server);
+
+    // Handle server errors
+    server.onerror = (error) => {
+      logger.error({ error }, 'Server error');
+    };
+
+    return server;
   }
 
   /**
    * Setup request handlers
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // List tools handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const tools = Array.from(this.tools.values()).map((tool) => ({
         name: tool.name,
         description: tool.description,
@@ -58,7 +93,7 @@ export class UberEatsMCPServer {
     });
 
     // Call tool handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       const tool = this.tools.get(name);
@@ -69,6 +104,7 @@ export class UberEatsMCPServer {
       try {
         logger.info({ tool: name, args }, 'Executing tool');
         const result = await tool.handler(args);
+        await this.slideSessionExpiry(name, args, result);
 
         return {
           content: [
@@ -89,7 +125,7 @@ export class UberEatsMCPServer {
     });
 
     // List resources handler
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       const resources = Array.from(this.resources.values()).map((resource) => ({
         uri: resource.uri,
         name: resource.name,
@@ -100,18 +136,30 @@ export class UberEatsMCPServer {
       return { resources };
     });
 
+    // List resource templates handler
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      const resourceTemplates = Array.from(this.resourceTemplates.values()).map((template) => ({
+        uriTemplate: template.uriTemplate,
+        name: template.name,
+        description: template.description,
+        mimeType: template.mimeType || 'application/json',
+      }));
+
+      return { resourceTemplates };
+    });
+
     // Read resource handler
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
-      const resource = Array.from(this.resources.values()).find((r) => r.uri === uri);
+      const resource = this.resolveResource(uri);
       if (!resource) {
         throw new McpError(ErrorCode.InvalidRequest, `Resource not found: ${uri}`);
       }
 
       try {
         logger.info({ resource: uri }, 'Reading resource');
-        const content = await resource.handler();
+        const content = await resource.handler(resource.params);
 
         return {
           contents: [
@@ -133,7 +181,7 @@ export class UberEatsMCPServer {
     });
 
     // List prompts handler
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
       const prompts = Array.from(this.prompts.values()).map((prompt) => ({
         name: prompt.name,
         description: prompt.description,
@@ -144,7 +192,7 @@ export class UberEatsMCPServer {
     });
 
     // Get prompt handler
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: promptArgs } = request.params;
 
       const prompt = this.prompts.get(name);
@@ -171,6 +219,35 @@ export class UberEatsMCPServer {
     });
   }
 
+  /**
+   * With SESSION_SLIDING_EXPIRY, push the session's expiry forward after a successful tool
+   * call that carries the login token, and report it with a re-issued token on the result.
+   * Never fails the call.
+   */
+  private async slideSessionExpiry(name: string, args: any, result: any): Promise<void> {
+    if (
+      !sessionConfig.slidingExpiry ||
+      SLIDING_EXPIRY_EXCLUDED_TOOLS.has(name) ||
+      typeof args?.sessionId !== 'string' ||
+      typeof args?.token !== 'string' ||
+      !result ||
+      typeof result !== 'object' ||
+      result?.status === 'error'
+    ) {
+      return;
+    }
+
+    try {
+      const activity = await sessionService.recordActivity(args.sessionId, args.token);
+
+      if (activity) {
+        result.session = activity;
+      }
+    } catch (error) {
+      logger.warn({ tool: name, error }, 'Sliding session expiry failed');
+    }
+  }
+
   /**
    * Register a tool
    */
@@ -211,6 +288,57 @@ export class UberEatsMCPServer {
     logger.info({ resource: uri }, 'Resource registered');
   }
 
+  /**
+   * Register a resource template (RFC 6570 URI template with parameters)
+   */
+  registerResourceTemplate(
+    uriTemplate: string,
+    name: string,
+    description: string,
+    handler: (params: Record<string, string>) => Promise<any>,
+    mimeType?: string
+  ): void {
+    this.resourceTemplates.set(uriTemplate, {
+      uriTemplate,
+      template: new UriTemplate(uriTemplate),
+      name,
+      description,
+      handler,
+      mimeType,
+    });
+
+    logger.info({ resourceTemplate: uriTemplate }, 'Resource template registered');
+  }
+
+  /**
+   * Resolve a resource URI against static resources, then resource templates
+   */
+  private resolveResource(
+    uri: string
+  ): { handler: (params?: any) => Promise<any>; mimeType?: string; params?: any } | undefined {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return resource;
+    }
+
+    for (const template of this.resourceTemplates.values()) {
+      const variables = template.template.match(uri);
+      if (variables) {
+        const params: Record<string, string> = {};
+        for (const [key, value] of Object.entries(variables)) {
+          // Template variables arrive percent-encoded (e.g. restaurant names with spaces)
+          params[key] = Array.isArray(value)
+            ? value.map(decodeTemplateValue).join(',')
+            : decodeTemplateValue(value as string);
+        }
+
+        return { handler: template.handler, mimeType: template.mimeType, params };
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Register a prompt
    */
@@ -234,37 +362,51 @@ export class UberEatsMCPServer {
    * Start the server
    */
   async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    if (serverConfig.transport === 'http') {
+      this.httpServer = new McpHttpServer(() => this.createServer());
+      await this.httpServer.start();
+    } else {
+      const transport = new StdioServerTransport();
+      await this.server.connect(transport);
+    }
 
     logger.info(
       {
+        transport: serverConfig.transport,
         tools: this.tools.size,
         resources: this.resources.size,
+        resourceTemplates: this.resourceTemplates.size,
         prompts: this.prompts.size,
       },
       'MCP server started'
     );
 
-    // Handle server errors
-    this.server.onerror = (error) => {
-      logger.error({ error }, 'Server error');
-    };
-
     // Handle shutdown
     process.on('SIGINT', async () => {
       logger.info('Shutting down server...');
-      await this.server.close();
+      await this.stop();
       process.exit(0);
     });
 
     process.on('SIGTERM', async () => {
       logger.info('Shutting down server...');
-      await this.server.close();
+      await this.stop();
       process.exit(0);
     });
   }
 
+  /**
+   * Stop the active transport
+   */
+  async stop(): Promise<void> {
+    if (this.httpServer) {
+      await this.httpServer.close();
+      this.httpServer = undefined;
+    } else {
+      await this.server.close();
+    }
+  }
+
   /**
    * Get server instance
    */
@@ -0,0 +1,125 @@
+/**
+ * Saved Address Book Service with Redis
+ */
+
+import { DeliveryAddress, LastUsedAddress, SavedAddress } from '../types/ubereats.js';
+import { redisConfig } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+import { redis } from '../utils/redis.js';
+import { NotFoundError } from '../utils/errorHandler.js';
+
+const logger = createLogger('addressBookService');
+
+export class AddressBookService {
+  /**
+   * Hash of label to serialized saved address
+   */
+  private addressesKey(username: string): string {
+    return `${redisConfig.keyPrefix}user:${username}:addresses`;
+  }
+
+  /**
+   * The address most recently set on any of the user's sessions
+   */
+  private lastUsedKey(username: string): string {
+    return `${redisConfig.keyPrefix}user:${username}:addresses:last`;
+  }
+
+  /**
+   * Save an address under a label, replacing any address with the same label
+   */
+  async saveAddress(
+    username: string,
+    label: string,
+    address: DeliveryAddress
+  ): Promise<SavedAddress> {
+    const existing = await this.findAddress(username, label);
+    const now = new Date().toISOString();
+
+    const saved: SavedAddress = {
+      label,
+      address,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await redis.hset(this.addressesKey(username), label, JSON.stringify(saved));
+
+    logger.info({ username, label, replaced: !!existing }, 'Address saved');
+
+    return saved;
+  }
+
+  /**
+   * Get a saved address, or null if the label is unknown
+   */
+  async findAddress(username: string, label: string): Promise<SavedAddress | null> {
+    const data = await redis.hget(this.addressesKey(username), label);
+    return data ? (JSON.parse(data) as SavedAddress) : null;
+  }
+
+  /**
+   * Get a saved address or throw NotFoundError
+   */
+  async getAddress(username: string, label: string): Promise<SavedAddress> {
+    const saved = await this.findAddress(username, label);
+
+    if (!saved) {
+      throw new NotFoundError(`Saved address "${label}"`);
+    }
+
+    return saved;
+  }
+
+  /**
+   * List the user's saved addresses sorted by label
+   */
+  async listAddresses(username: string): Promise<SavedAddress[]> {
+    const entries = await redis.hgetall(this.addressesKey(username));
+
+    return Object.values(entries)
+      .map((data) => JSON.parse(data) as SavedAddress)
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  /**
+   * Delete a saved address or throw NotFoundError
+   */
+  async deleteAddress(username: string, label: string): Promise<void> {
+    const removed = await redis.hdel(this.addressesKey(username), label);
+
+    if (removed === 0) {
+      throw new NotFoundError(`Saved address "${label}"`);
+    }
+
+    logger.info({ username, label }, 'Address deleted');
+  }
+
+  /**
+   * Remember the address the user last delivered to
+   */
+  async rememberLastUsed(
+    username: string,
+    address: DeliveryAddress,
+    label?: string
+  ): Promise<void> {
+    const lastUsed: LastUsedAddress = {
+      label,
+      address,
+      usedAt: new Date().toISOString(),
+    };
+
+    await redis.set(this.lastUsedKey(username), JSON.stringify(lastUsed));
+  }
+
+  /**
+   * Get the address the user last delivered to
+   */
+  async getLastUsed(username: string): Promise<LastUsedAddress | null> {
+    const data = await redis.get(this.lastUsedKey(username));
+    return data ? (JSON.parse(data) as LastUsedAddress) : null;
+  }
+}
+
+// Export singleton instance
+export const addressBookService = new AddressBookService();
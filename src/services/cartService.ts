@@ -0,0 +1,302 @@
+/**
+ * Server-side Cart Service
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { sessionService } from './sessionService.js';
+import { n8nService } from './n8nService.js';
+import { Cart, CartItem, OrderItem } from '../types/ubereats.js';
+import { N8nWebhookResponse } from '../types/n8n.js';
+import { SessionData } from '../types/session.js';
+import { createLogger } from '../utils/logger.js';
+import { AppError, NotFoundError } from '../utils/errorHandler.js';
+import { normalizeName } from '../utils/fuzzyMatch.js';
+
+const logger = createLogger('cartService');
+
+export class CartService {
+  /**
+   * Session data forwarded to n8n for browser automation
+   */
+  private toSessionData(session: SessionData) {
+    return {
+      cookies: session.cookies,
+      tokens: session.tokens,
+      sessionStorage: session.sessionStorage,
+      localStorage: session.localStorage,
+      storageState: session.storageState,
+    };
+  }
+
+  /**
+   * Strip server-side fields before sending an item to n8n
+   */
+  private toOrderItem(item: CartItem): OrderItem {
+    return {
+      name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+      options: item.options,
+      modifiers: item.modifiers,
+    };
+  }
+
+  /**
+   * Find a cart line or throw NotFoundError
+   */
+  private findItem(session: SessionData, lineId: string): { cart: Cart; item: CartItem } {
+    const cart = session.cart;
+    const item = cart?.items.find((i) => i.lineId === lineId);
+
+    if (!cart || !item) {
+      throw new NotFoundError('Cart item');
+    }
+
+    return { cart, item };
+  }
+
+  /**
+   * Whether the cart belongs to the given restaurant. Names made only of punctuation
+   * normalise to nothing, so those are compared case-insensitively instead.
+   */
+  private isSameRestaurant(cart: Cart, restaurantName: string): boolean {
+    const current = normalizeName(cart.restaurantName);
+    const requested = normalizeName(restaurantName);
+
+    if (!current || !requested) {
+      return cart.restaurantName.trim().toLowerCase() === restaurantName.trim().toLowerCase();
+    }
+
+    return current === requested;
+  }
+
+  /**
+   * Persist the cart on the session
+   */
+  private async saveCart(sessionId: string, cart: Cart | null): Promise<Cart | null> {
+    await sessionService.updateSession(sessionId, { cart });
+    return cart;
+  }
+
+  /**
+   * Merge n8n-reported totals into the cart
+   */
+  private withTotals(cart: Cart, response: N8nWebhookResponse): Cart {
+    return {
+      ...cart,
+      cartTotal: response.cart?.cartTotal ?? response.cartTotal ?? cart.cartTotal,
+      totals: response.cart?.totals ?? response.totals ?? cart.totals,
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Get the session's cart without contacting n8n
+   */
+  getCart(session: SessionData): Cart | null {
+    return session.cart ?? null;
+  }
+
+  /**
+   * Make sure items from a restaurant can go into the cart. UberEats carts hold a single
+   * restaurant, so a different restaurant is a conflict unless the caller asks to replace
+   * the cart, in which case it is cleared first. Returns the session as it now stands.
+   */
+  async ensureRestaurant(
+    session: SessionData,
+    restaurantName: string,
+    replaceCart: boolean
+  ): Promise<SessionData> {
+    const cart = session.cart;
+
+    if (!cart || cart.items.length === 0 || this.isSameRestaurant(cart, restaurantName)) {
+      return session;
+    }
+
+    if (!replaceCart) {
+      throw new AppError(
+        `Cart already has ${cart.items.length} item(s) from ${cart.restaurantName}. Checkout or clear it first, or set replaceCart to start a new cart from ${restaurantName}.`,
+        409,
+        'CART_RESTAURANT_CONFLICT',
+        {
+          currentRestaurant: cart.restaurantName,
+          requestedRestaurant: restaurantName,
+          itemCount: cart.items.length,
+        }
+      );
+    }
+
+    logger.info(
+      { sessionId: session.id, from: cart.restaurantName, to: restaurantName },
+      'Replacing cart for a different restaurant'
+    );
+
+    await this.clearCart(session);
+    return { ...session, cart: undefined };
+  }
+
+  /**
+   * Record items that n8n successfully added to the cart
+   */
+  async recordAddedItems(
+    session: SessionData,
+    restaurantName: string,
+    items: OrderItem[],
+    response: N8nWebhookResponse
+  ): Promise<Cart> {
+    const existing =
+      session.cart && this.isSameRestaurant(session.cart, restaurantName) ? session.cart : null;
+
+    const cart = this.withTotals(
+      {
+        restaurantName: existing?.restaurantName ?? restaurantName,
+        items: [
+          ...(existing?.items ?? []),
+          ...items.map((item) => ({ ...item, lineId: uuidv4() })),
+        ],
+        updatedAt: new Date(),
+      },
+      response
+    );
+
+    await this.saveCart(session.id, cart);
+    return cart;
+  }
+
+  /**
+   * Re-read the cart from UberEats and sync the stored copy
+   */
+  async refreshCart(session: SessionData): Promise<Cart | null> {
+    const response = await n8nService.viewCart(session.id, this.toSessionData(session));
+
+    if (response.status !== 'success') {
+      throw new AppError(response.message || 'Failed to load cart', 502, 'VIEW_CART_FAILED');
+    }
+
+    const remoteItems = response.cart?.items ?? [];
+    if (remoteItems.length === 0) {
+      return this.saveCart(session.id, null);
+    }
+
+    // Keep line IDs stable for items we already know about
+    const unclaimed = [...(session.cart?.items ?? [])];
+    const items: CartItem[] = remoteItems.map((remote) => {
+      const index = unclaimed.findIndex(
+        (local) => local.name.toLowerCase() === remote.name.toLowerCase()
+      );
+      const [known] = index >= 0 ? unclaimed.splice(index, 1) : [];
+      return { ...remote, lineId: known?.lineId ?? uuidv4() };
+    });
+
+    const cart = this.withTotals(
+      {
+        restaurantName:
+          response.cart?.restaurantName ?? session.cart?.restaurantName ?? 'Unknown restaurant',
+        items,
+        updatedAt: new Date(),
+      },
+      response
+    );
+
+    logger.info({ sessionId: session.id, itemCount: items.length }, 'Cart refreshed');
+
+    return this.saveCart(session.id, cart);
+  }
+
+  /**
+   * Change the quantity or options of a cart line
+   */
+  async updateItem(
+    session: SessionData,
+    lineId: string,
+    changes: { quantity?: number; options?: OrderItem['options'] }
+  ): Promise<Cart> {
+    const { cart, item } = this.findItem(session, lineId);
+
+    const response = await n8nService.updateCartItem(
+      session.id,
+      this.toSessionData(session),
+      cart.restaurantName,
+      this.toOrderItem(item),
+      changes
+    );
+
+    if (response.status !== 'success') {
+      throw new AppError(
+        response.message || 'Failed to update cart item',
+        502,
+        'UPDATE_CART_ITEM_FAILED'
+      );
+    }
+
+    const updated = this.withTotals(
+      {
+        ...cart,
+        items: cart.items.map((i) =>
+          i.lineId === lineId
+            ? {
+                ...i,
+                quantity: changes.quantity ?? i.quantity,
+                options: changes.options ?? i.options,
+              }
+            : i
+        ),
+      },
+      response
+    );
+
+    logger.info({ sessionId: session.id, lineId }, 'Cart item updated');
+
+    await this.saveCart(session.id, updated);
+    return updated;
+  }
+
+  /**
+   * Remove a cart line; the cart is cleared when its last line is removed
+   */
+  async removeItem(session: SessionData, lineId: string): Promise<Cart | null> {
+    const { cart, item } = this.findItem(session, lineId);
+
+    const response = await n8nService.removeCartItem(
+      session.id,
+      this.toSessionData(session),
+      cart.restaurantName,
+      this.toOrderItem(item)
+    );
+
+    if (response.status !== 'success') {
+      throw new AppError(
+        response.message || 'Failed to remove cart item',
+        502,
+        'REMOVE_CART_ITEM_FAILED'
+      );
+    }
+
+    const items = cart.items.filter((i) => i.lineId !== lineId);
+
+    logger.info({ sessionId: session.id, lineId }, 'Cart item removed');
+
+    return this.saveCart(
+      session.id,
+      items.length > 0 ? this.withTotals({ ...cart, items }, response) : null
+    );
+  }
+
+  /**
+   * Remove everything from the cart
+   */
+  async clearCart(session: SessionData): Promise<void> {
+    const response = await n8nService.clearCart(session.id, this.toSessionData(session));
+
+    if (response.status !== 'success') {
+      throw new AppError(response.message || 'Failed to clear cart', 502, 'CLEAR_CART_FAILED');
+    }
+
+    await this.saveCart(session.id, null);
+
+    logger.info({ sessionId: session.id }, 'Cart cleared');
+  }
+}
+
+// Export singleton instance
+export const cartService = new CartService();
@@ -0,0 +1,244 @@
+/**
+ * Address Geocoding and Normalisation Service
+ */
+
+import { readFile } from 'node:fs/promises';
+import axios, { AxiosInstance } from 'axios';
+import { DeliveryAddress } from '../types/ubereats.js';
+import { geocoderConfig } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('geocoderService');
+
+export interface GeocodeMatch {
+  latitude: number;
+  longitude: number;
+  address?: Partial<DeliveryAddress>; // Corrected fields reported by the provider
+}
+
+/**
+ * Look up coordinates for an address; resolve null when the address is unknown
+ */
+export interface Geocoder {
+  readonly name: string;
+  geocode(address: DeliveryAddress): Promise<GeocodeMatch | null>;
+}
+
+export interface OfflineLookupEntry {
+  street: string;
+  zipCode: string;
+  country?: string;
+  latitude: number;
+  longitude: number;
+  address?: Partial<DeliveryAddress>;
+}
+
+// USPS street suffix abbreviations, applied to US addresses only
+const US_STREET_SUFFIXES: Record<string, string> = {
+  avenue: 'Ave',
+  boulevard: 'Blvd',
+  circle: 'Cir',
+  court: 'Ct',
+  drive: 'Dr',
+  highway: 'Hwy',
+  lane: 'Ln',
+  parkway: 'Pkwy',
+  place: 'Pl',
+  road: 'Rd',
+  square: 'Sq',
+  street: 'St',
+  terrace: 'Ter',
+};
+
+/**
+ * Collapse whitespace and trailing punctuation
+ */
+function clean(value: string): string {
+  return value
+    .replace(/\s+/g, ' ')
+    .replace(/[\s,.]+$/, '')
+    .trim();
+}
+
+/**
+ * Normalise an address before geocoding: whitespace, casing and US street suffixes
+ */
+export function normalizeAddress(address: DeliveryAddress): DeliveryAddress {
+  const isUs = !address.country || address.country === 'US';
+
+  let street = clean(address.street);
+  if (isUs) {
+    street = street.replace(/\b([A-Za-z]+)\.?$/, (word, suffix: string) => {
+      return US_STREET_SUFFIXES[suffix.toLowerCase()] ?? word;
+    });
+  }
+
+  return {
+    ...address,
+    street,
+    city: clean(address.city),
+    state: address.state !== undefined && isUs ? clean(address.state).toUpperCase() : address.state,
+    zipCode: address.zipCode.trim(),
+    aptSuite: address.aptSuite !== undefined ? clean(address.aptSuite) : undefined,
+  };
+}
+
+/**
+ * Key used to match an address against the offline lookup file
+ */
+function lookupKey(street: string, zipCode: string, country?: string): string {
+  return [street, zipCode.replace(/\s+/g, ''), country ?? 'US']
+    .map((part) => part.toLowerCase().replace(/[^a-z0-9]/g, ''))
+    .join('|');
+}
+
+/**
+ * Geocoder backed by a local JSON lookup file, for tests and offline development
+ */
+export class OfflineGeocoder implements Geocoder {
+  readonly name = 'offline';
+  private entries: Map<string, OfflineLookupEntry> | null = null;
+
+  constructor(private readonly lookupFile: string) {}
+
+  private async load(): Promise<Map<string, OfflineLookupEntry>> {
+    if (!this.entries) {
+      const data = JSON.parse(await readFile(this.lookupFile, 'utf8')) as OfflineLookupEntry[];
+      this.entries = new Map(
+        data.map((entry) => [lookupKey(entry.street, entry.zipCode, entry.country), entry])
+      );
+      logger.info({ lookupFile: this.lookupFile, count: data.length }, 'Geocoder lookup loaded');
+    }
+    return this.entries;
+  }
+
+  async geocode(address: DeliveryAddress): Promise<GeocodeMatch | null> {
+    const entries = await this.load();
+    const entry = entries.get(lookupKey(address.street, address.zipCode, address.country));
+
+    return entry
+      ? { latitude: entry.latitude, longitude: entry.longitude, address: entry.address }
+      : null;
+  }
+}
+
+/**
+ * Geocoder using a Nominatim-compatible HTTP search API
+ */
+export class HttpGeocoder implements Geocoder {
+  readonly name = 'http';
+  private axios: AxiosInstance;
+
+  constructor(options: { url: string; apiKey?: string; timeout: number }) {
+    this.axios = axios.create({
+      baseURL: options.url,
+      timeout: options.timeout,
+      headers: {
+        'User-Agent': 'ubereats-mcp-server',
+      },
+      // Hosted Nominatim-compatible providers take the API key as a query parameter
+      params: options.apiKey ? { key: options.apiKey } : undefined,
+    });
+  }
+
+  async geocode(address: DeliveryAddress): Promise<GeocodeMatch | null> {
+    const response = await this.axios.get<
+      Array<{ lat: string; lon: string; address?: { postcode?: string } }>
+    >('', {
+      params: {
+        street: address.street,
+        city: address.city,
+        state: address.state,
+        postalcode: address.zipCode,
+        countrycodes: (address.country ?? 'US').toLowerCase(),
+        format: 'jsonv2',
+        addressdetails: 1,
+        limit: 1,
+      },
+    });
+
+    const [match] = response.data;
+    if (!match) {
+      return null;
+    }
+
+    const latitude = Number(match.lat);
+    const longitude = Number(match.lon);
+    if (Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      return null;
+    }
+
+    return {
+      latitude,
+      longitude,
+      address: match.address?.postcode ? { zipCode: match.address.postcode } : undefined,
+    };
+  }
+}
+
+export interface GeocodedAddress {
+  address: DeliveryAddress;
+  provider: string | null;
+  geocoded: boolean;
+}
+
+export class GeocoderService {
+  constructor(private readonly geocoder: Geocoder | null) {}
+
+  /**
+   * Normalise an address and fill in coordinates. Geocoding failures never block an
+   * address: the normalised address is returned without coordinates instead.
+   */
+  async resolve(address: DeliveryAddress): Promise<GeocodedAddress> {
+    const normalized = normalizeAddress(address);
+
+    // Coordinates supplied by the caller win over any lookup
+    if (!this.geocoder || (address.latitude !== undefined && address.longitude !== undefined)) {
+      return { address: normalized, provider: null, geocoded: false };
+    }
+
+    try {
+      const match = await this.geocoder.geocode(normalized);
+
+      if (!match) {
+        logger.info({ provider: this.geocoder.name, city: normalized.city }, 'Address not found');
+        return { address: normalized, provider: this.geocoder.name, geocoded: false };
+      }
+
+      return {
+        address: {
+          ...normalized,
+          ...match.address,
+          latitude: match.latitude,
+          longitude: match.longitude,
+        },
+        provider: this.geocoder.name,
+        geocoded: true,
+      };
+    } catch (error) {
+      logger.warn({ error, provider: this.geocoder.name }, 'Geocoding failed');
+      return { address: normalized, provider: this.geocoder.name, geocoded: false };
+    }
+  }
+}
+
+/**
+ * Create the geocoder selected by GEOCODER_PROVIDER
+ */
+export function createGeocoder(): Geocoder | null {
+  switch (geocoderConfig.provider) {
+    case 'offline':
+      return new OfflineGeocoder(geocoderConfig.lookupFile);
+    case 'http':
+      return new HttpGeocoder({
+        url: geocoderConfig.httpUrl,
+        apiKey: geocoderConfig.httpApiKey,
+        timeout: geocoderConfig.timeout,
+      });
+    default:
+      return null;
+  }
+}
+
+// Export singleton instance
+export const geocoderService = new GeocoderService(createGeocoder());
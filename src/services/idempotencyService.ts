@@ -0,0 +1,163 @@
+/**
+ * Idempotency Key Service with Redis
+ */
+
+import { createHash } from 'node:crypto';
+import { redisConfig, checkoutConfig } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+import { redis } from '../utils/redis.js';
+import { AppError } from '../utils/errorHandler.js';
+
+const logger = createLogger('idempotencyService');
+
+interface IdempotencyRecord {
+  status: 'processing' | 'completed' | 'unknown';
+  fingerprint: string;
+  createdAt: string;
+  completedAt?: string;
+  result?: any;
+  reason?: string;
+}
+
+export type IdempotencyState =
+  | { state: 'acquired' }
+  | { state: 'processing'; startedAt: string }
+  | { state: 'completed'; result: any; completedAt?: string }
+  | { state: 'unknown'; failedAt: string; reason?: string };
+
+export class IdempotencyService {
+  private readonly keyPrefix: string;
+
+  constructor() {
+    this.keyPrefix = `${redisConfig.keyPrefix}idempotency:`;
+  }
+
+  private key(scope: string, idempotencyKey: string): string {
+    return `${this.keyPrefix}${scope}:${idempotencyKey}`;
+  }
+
+  /**
+   * Hash the request parameters so a reused key with different parameters can be detected
+   */
+  fingerprint(params: Record<string, any>): string {
+    const sorted = Object.keys(params)
+      .sort()
+      .map((key) => [key, params[key]]);
+    return createHash('sha256').update(JSON.stringify(sorted)).digest('hex');
+  }
+
+  /**
+   * Claim an idempotency key, or report the stored state if it was already used
+   */
+  async begin(
+    scope: string,
+    idempotencyKey: string,
+    fingerprint: string
+  ): Promise<IdempotencyState> {
+    const key = this.key(scope, idempotencyKey);
+    const record: IdempotencyRecord = {
+      status: 'processing',
+      fingerprint,
+      createdAt: new Date().toISOString(),
+    };
+
+    const acquired = await redis.set(
+      key,
+      JSON.stringify(record),
+      'EX',
+      checkoutConfig.idempotencyProcessingTtlSeconds,
+      'NX'
+    );
+
+    if (acquired === 'OK') {
+      return { state: 'acquired' };
+    }
+
+    const data = await redis.get(key);
+    if (!data) {
+      // Expired between SET and GET; try once more
+      return this.begin(scope, idempotencyKey, fingerprint);
+    }
+
+    const existing = JSON.parse(data) as IdempotencyRecord;
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new AppError(
+        'Idempotency key was already used with different parameters',
+        422,
+        'IDEMPOTENCY_KEY_REUSED'
+      );
+    }
+
+    logger.info({ scope, status: existing.status }, 'Idempotency key replayed');
+
+    if (existing.status === 'completed') {
+      return { state: 'completed', result: existing.result, completedAt: existing.completedAt };
+    }
+
+    if (existing.status === 'unknown') {
+      return {
+        state: 'unknown',
+        failedAt: existing.completedAt ?? existing.createdAt,
+        reason: existing.reason,
+      };
+    }
+
+    return { state: 'processing', startedAt: existing.createdAt };
+  }
+
+  /**
+   * Store the final result for an idempotency key
+   */
+  async complete(
+    scope: string,
+    idempotencyKey: string,
+    fingerprint: string,
+    result: any
+  ): Promise<void> {
+    const key = this.key(scope, idempotencyKey);
+    const record: IdempotencyRecord = {
+      status: 'completed',
+      fingerprint,
+      createdAt: new Date().toISOString(),
+      completedAt: new Date().toISOString(),
+      result,
+    };
+
+    await redis.setex(key, checkoutConfig.idempotencyTtlHours * 3600, JSON.stringify(record));
+  }
+
+  /**
+   * Close an idempotency key whose request may or may not have taken effect. The key is
+   * kept as long as a completed one, so retries cannot repeat the request.
+   */
+  async markUnknown(
+    scope: string,
+    idempotencyKey: string,
+    fingerprint: string,
+    reason: string
+  ): Promise<void> {
+    const key = this.key(scope, idempotencyKey);
+    const record: IdempotencyRecord = {
+      status: 'unknown',
+      fingerprint,
+      createdAt: new Date().toISOString(),
+      completedAt: new Date().toISOString(),
+      reason,
+    };
+
+    await redis.setex(key, checkoutConfig.idempotencyTtlHours * 3600, JSON.stringify(record));
+
+    logger.warn({ scope, reason }, 'Idempotency key closed with unknown outcome');
+  }
+
+  /**
+   * Release an idempotency key so the request can be retried
+   */
+  async release(scope: string, idempotencyKey: string): Promise<void> {
+    await redis.del(this.key(scope, idempotencyKey));
+  }
+}
+
+// Export singleton instance
+export const idempotencyService = new IdempotencyService();
@@ -3,7 +3,13 @@
  */
 
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import { N8nWebhookEndpoint, N8nWebhookPayload, N8nWebhookResponse } from '../types/n8n.js';
+import {
+  N8nWebhookEndpoint,
+  N8nWebhookPayload,
+  N8nWebhookResponse,
+  N8nCheckoutOptions,
+  N8nRestaurantSearch,
+} from '../types/n8n.js';
 import { n8nConfig } from '../config/environment.js';
 import { createLogger } from '../utils/logger.js';
 import { ExternalServiceError, CircuitBreakerError } from '../utils/errorHandler.js';
@@ -254,6 +260,98 @@ export class N8nService {
     );
   }
 
+  /**
+   * Search restaurants that deliver to an address
+   */
+  async searchRestaurants(
+    sessionId: string,
+    sessionData: any,
+    address: any,
+    search: N8nRestaurantSearch
+  ): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
+    const payload: N8nWebhookPayload = {
+      sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
+      address,
+      query: search.query,
+      cuisine: search.cuisine,
+      maxPriceTier: search.maxPriceTier,
+      max_price_tier: search.maxPriceTier,
+      minRating: search.minRating,
+      min_rating: search.minRating,
+      maxDeliveryFee: search.maxDeliveryFee,
+      max_delivery_fee: search.maxDeliveryFee,
+      limit: search.limit,
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.callWebhook(N8nWebhookEndpoint.SEARCH_RESTAURANTS, payload);
+  }
+
+  /**
+   * Get a restaurant's menu
+   */
+  async getMenu(
+    sessionId: string,
+    sessionData: any,
+    restaurantName: string
+  ): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
+    const payload: N8nWebhookPayload = {
+      sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
+      restaurantName,
+      restaurant_name: restaurantName,
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.callWebhook(N8nWebhookEndpoint.GET_MENU, payload);
+  }
+
+  /**
+   * Check whether a restaurant delivers to an address right now
+   */
+  async checkAvailability(
+    sessionId: string,
+    sessionData: any,
+    restaurantName: string,
+    address: any
+  ): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
+    const payload: N8nWebhookPayload = {
+      sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
+      restaurantName,
+      restaurant_name: restaurantName,
+      address,
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.callWebhook(N8nWebhookEndpoint.CHECK_AVAILABILITY, payload);
+  }
+
   /**
    * Add items to cart
    */
@@ -284,6 +382,130 @@ export class N8nService {
     return this.callWebhook(N8nWebhookEndpoint.ADD_ITEMS, payload);
   }
 
+  /**
+   * Get current cart contents
+   */
+  async viewCart(sessionId: string, sessionData: any): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
+    const payload: N8nWebhookPayload = {
+      sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.callWebhook(N8nWebhookEndpoint.VIEW_CART, payload);
+  }
+
+  /**
+   * Change quantity or options of a cart item
+   */
+  async updateCartItem(
+    sessionId: string,
+    sessionData: any,
+    restaurantName: string,
+    item: any,
+    changes: { quantity?: number; options?: any }
+  ): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
+    const payload: N8nWebhookPayload = {
+      sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
+      restaurantName,
+      restaurant_name: restaurantName,
+      item,
+      quantity: changes.quantity,
+      options: changes.options,
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.callWebhook(N8nWebhookEndpoint.UPDATE_CART_ITEM, payload);
+  }
+
+  /**
+   * Remove an item from the cart
+   */
+  async removeCartItem(
+    sessionId: string,
+    sessionData: any,
+    restaurantName: string,
+    item: any
+  ): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
+    const payload: N8nWebhookPayload = {
+      sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
+      restaurantName,
+      restaurant_name: restaurantName,
+      item,
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.callWebhook(N8nWebhookEndpoint.REMOVE_CART_ITEM, payload);
+  }
+
+  /**
+   * Remove all items from the cart
+   */
+  async clearCart(sessionId: string, sessionData: any): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
+    const payload: N8nWebhookPayload = {
+      sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.callWebhook(N8nWebhookEndpoint.CLEAR_CART, payload);
+  }
+
+  /**
+   * List saved payment methods on the UberEats account
+   */
+  async listPaymentMethods(sessionId: string, sessionData: any): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
+    const payload: N8nWebhookPayload = {
+      sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.callWebhook(N8nWebhookEndpoint.LIST_PAYMENT_METHODS, payload);
+  }
+
   /**
    * Set delivery address
    */
@@ -317,8 +539,7 @@ export class N8nService {
   async checkout(
     sessionId: string,
     sessionData: any,
-    paymentMethodId?: string,
-    tipAmount?: number
+    options: N8nCheckoutOptions = {}
   ): Promise<N8nWebhookResponse> {
     // Ensure sessionId is included in sessionData for Playwright script
     const enhancedSessionData = {
@@ -332,23 +553,74 @@ export class N8nService {
       session_id: sessionId,
       sessionData: enhancedSessionData,
       session_data: enhancedSessionData,
-      paymentMethodId: paymentMethodId,
-      payment_method_id: paymentMethodId,
-      tipAmount: tipAmount,
-      tip_amount: tipAmount,
+      paymentMethodId: options.paymentMethodId,
+      payment_method_id: options.paymentMethodId,
+      tipAmount: options.tipAmount,
+      tip_amount: options.tipAmount,
+      promoCode: options.promoCode,
+      promo_code: options.promoCode,
+      scheduleTime: options.scheduleTime,
+      schedule_time: options.scheduleTime,
+      contactlessDelivery: options.contactlessDelivery,
+      contactless_delivery: options.contactlessDelivery,
       timestamp: new Date().toISOString(),
     };
 
     return this.callWebhook(N8nWebhookEndpoint.CHECKOUT, payload);
   }
 
+  /**
+   * Preview checkout totals without placing the order
+   */
+  async checkoutPreview(
+    sessionId: string,
+    sessionData: any,
+    options: N8nCheckoutOptions = {}
+  ): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
+    const payload: N8nWebhookPayload = {
+      sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
+      paymentMethodId: options.paymentMethodId,
+      payment_method_id: options.paymentMethodId,
+      tipAmount: options.tipAmount,
+      tip_amount: options.tipAmount,
+      promoCode: options.promoCode,
+      promo_code: options.promoCode,
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.callWebhook(N8nWebhookEndpoint.CHECKOUT_PREVIEW, payload);
+  }
+
   /**
    * Get order status
    */
-  async getOrderStatus(sessionId: string, orderNumber: string): Promise<N8nWebhookResponse> {
+  async getOrderStatus(
+    sessionId: string,
+    sessionData: any,
+    orderNumber: string
+  ): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
     const payload: N8nWebhookPayload = {
       sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
       orderNumber,
+      order_number: orderNumber,
       timestamp: new Date().toISOString(),
     };
 
@@ -360,12 +632,23 @@ export class N8nService {
    */
   async cancelOrder(
     sessionId: string,
+    sessionData: any,
     orderNumber: string,
     reason?: string
   ): Promise<N8nWebhookResponse> {
+    const enhancedSessionData = {
+      ...sessionData,
+      sessionId,
+    };
+
+    // Use snake_case for n8n webhook compatibility
     const payload: N8nWebhookPayload = {
       sessionId,
+      session_id: sessionId,
+      sessionData: enhancedSessionData,
+      session_data: enhancedSessionData,
       orderNumber,
+      order_number: orderNumber,
       reason,
       timestamp: new Date().toISOString(),
     };
@@ -0,0 +1,318 @@
+/**
+ * Order Tracking Service
+ */
+
+import { sessionService } from './sessionService.js';
+import { n8nService } from './n8nService.js';
+import { restaurantService } from './restaurantService.js';
+import {
+  OrderStage,
+  OrderStatus,
+  OrderHistoryRecord,
+  OrderItem,
+  OrderItemSchema,
+  DeliveryAddressSchema,
+  ReorderPlan,
+  UnmatchedReorderItem,
+} from '../types/ubereats.js';
+import { N8nWebhookResponse } from '../types/n8n.js';
+import { SessionStatus } from '../types/session.js';
+import { redisConfig } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+import { redis } from '../utils/redis.js';
+import {
+  AppError,
+  AuthenticationError,
+  NotFoundError,
+  formatZodError,
+} from '../utils/errorHandler.js';
+
+const logger = createLogger('orderService');
+
+// Keywords used to map free-form n8n status text onto an order stage (checked in order)
+const STAGE_KEYWORDS: Array<[OrderStage, string[]]> = [
+  [OrderStage.CANCELLED, ['cancel']],
+  [OrderStage.DELIVERED, ['delivered', 'complete']],
+  [OrderStage.ARRIVING, ['arriving', 'nearby', 'almost']],
+  [OrderStage.PICKED_UP, ['picked', 'on the way', 'en route', 'heading']],
+  [OrderStage.READY_FOR_PICKUP, ['ready']],
+  [OrderStage.PREPARING, ['prepar', 'cooking', 'making']],
+  [OrderStage.CONFIRMED, ['confirm', 'accepted']],
+  [OrderStage.PLACED, ['placed', 'received', 'pending']],
+];
+
+/**
+ * Map a raw stage or status string from n8n to an OrderStage
+ */
+export function normalizeOrderStage(raw?: string): OrderStage {
+  if (!raw) {
+    return OrderStage.UNKNOWN;
+  }
+
+  const value = raw.trim().toLowerCase();
+  const exact = Object.values(OrderStage).find((stage) => stage === value.replace(/[\s-]+/g, '_'));
+  if (exact) {
+    return exact;
+  }
+
+  for (const [stage, keywords] of STAGE_KEYWORDS) {
+    if (keywords.some((keyword) => value.includes(keyword))) {
+      return stage;
+    }
+  }
+
+  return OrderStage.UNKNOWN;
+}
+
+export interface OrderHistoryQuery {
+  offset: number;
+  limit: number;
+  from?: Date;
+  to?: Date;
+}
+
+export class OrderService {
+  /**
+   * Sorted set of order numbers scored by placement time
+   */
+  private historyIndexKey(username: string): string {
+    return `${redisConfig.keyPrefix}user:${username}:orders`;
+  }
+
+  /**
+   * Hash of order number to serialized order record
+   */
+  private historyDataKey(username: string): string {
+    return `${redisConfig.keyPrefix}user:${username}:orders:data`;
+  }
+
+  /**
+   * Save a placed order to the user's history
+   */
+  async saveOrder(username: string, record: OrderHistoryRecord): Promise<void> {
+    await redis
+      .multi()
+      .hset(this.historyDataKey(username), record.orderNumber, JSON.stringify(record))
+      .zadd(this.historyIndexKey(username), new Date(record.placedAt).getTime(), record.orderNumber)
+      .exec();
+
+    logger.info({ username, orderNumber: record.orderNumber }, 'Order saved to history');
+  }
+
+  /**
+   * Get a single order from the user's history
+   */
+  async getOrder(username: string, orderNumber: string): Promise<OrderHistoryRecord | null> {
+    const data = await redis.hget(this.historyDataKey(username), orderNumber);
+    return data ? (JSON.parse(data) as OrderHistoryRecord) : null;
+  }
+
+  /**
+   * Get the user's most recent order
+   */
+  async getLatestOrder(username: string): Promise<OrderHistoryRecord | null> {
+    const [orderNumber] = await redis.zrevrange(this.historyIndexKey(username), 0, 0);
+    return orderNumber ? this.getOrder(username, orderNumber) : null;
+  }
+
+  /**
+   * Rebuild the tool calls needed to place a past order again in the given session
+   */
+  async buildReorderPlan(
+    sessionId: string,
+    token: string,
+    orderNumber?: string
+  ): Promise<ReorderPlan> {
+    const session = await sessionService.authenticate(sessionId, token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const record = orderNumber
+      ? await this.getOrder(session.username, orderNumber)
+      : await this.getLatestOrder(session.username);
+
+    if (!record) {
+      throw new NotFoundError(orderNumber ? `Order ${orderNumber}` : 'Previous order');
+    }
+
+    const storedItems: OrderItem[] = [];
+    const unmatchedItems: UnmatchedReorderItem[] = [];
+
+    for (const item of record.items) {
+      const parsed = OrderItemSchema.safeParse(item);
+      if (parsed.success) {
+        // Drop the stored price so the current menu price applies
+        storedItems.push({ ...parsed.data, price: undefined });
+      } else {
+        unmatchedItems.push({
+          item,
+          reason: Object.values(formatZodError(parsed.error)).flat().join('; '),
+        });
+      }
+    }
+
+    // Check the items against the restaurant's current menu when one is cached
+    const validation = await restaurantService.validateItems(record.restaurantName, storedItems);
+    const items: OrderItem[] = [];
+
+    storedItems.forEach((item, index) => {
+      const issues = validation?.issues.filter((issue) => issue.itemIndex === index) ?? [];
+      if (issues.length > 0) {
+        unmatchedItems.push({ item, reason: issues.map((issue) => issue.message).join('; ') });
+      } else {
+        items.push(validation?.items[index] ?? item);
+      }
+    });
+
+    const plan: ReorderPlan = {
+      sourceOrder: {
+        orderNumber: record.orderNumber,
+        placedAt: record.placedAt,
+        restaurantName: record.restaurantName,
+        totalAmount: record.totalAmount,
+      },
+      checkout: {
+        sessionId: session.id,
+        paymentMethodId: record.paymentMethodId,
+        tipAmount: record.tipAmount,
+      },
+      unmatchedItems,
+      steps: [],
+    };
+
+    const address = DeliveryAddressSchema.safeParse({
+      sessionId: session.id,
+      address: record.deliveryAddress,
+    });
+    if (address.success) {
+      plan.address = address.data;
+      plan.steps.push({ tool: 'ubereats_set_address', arguments: plan.address });
+    }
+
+    if (items.length > 0) {
+      plan.addItems = {
+        sessionId: session.id,
+        restaurantName: record.restaurantName,
+        items,
+        replaceCart: false,
+      };
+      plan.steps.push({ tool: 'ubereats_add_items', arguments: plan.addItems });
+      plan.steps.push({ tool: 'ubereats_checkout', arguments: plan.checkout });
+    }
+
+    logger.info(
+      {
+        sessionId: session.id,
+        orderNumber: record.orderNumber,
+        itemCount: items.length,
+        unmatchedCount: unmatchedItems.length,
+      },
+      'Reorder plan built'
+    );
+
+    return plan;
+  }
+
+  /**
+   * List the user's orders, newest first
+   */
+  async listOrders(
+    username: string,
+    query: OrderHistoryQuery
+  ): Promise<{ orders: OrderHistoryRecord[]; total: number }> {
+    const max = query.to ? query.to.getTime() : '+inf';
+    const min = query.from ? query.from.getTime() : '-inf';
+
+    const [orderNumbers, total] = await Promise.all([
+      redis.zrevrangebyscore(
+        this.historyIndexKey(username),
+        max,
+        min,
+        'LIMIT',
+        query.offset,
+        query.limit
+      ),
+      redis.zcount(this.historyIndexKey(username), min, max),
+    ]);
+
+    if (orderNumbers.length === 0) {
+      return { orders: [], total };
+    }
+
+    const records = await redis.hmget(this.historyDataKey(username), ...orderNumbers);
+    const orders = records
+      .filter((data): data is string => data !== null)
+      .map((data) => JSON.parse(data) as OrderHistoryRecord);
+
+    return { orders, total };
+  }
+
+  /**
+   * Get live status for an order placed in the given session
+   */
+  async getOrderStatus(
+    sessionId: string,
+    token: string,
+    orderNumber: string
+  ): Promise<OrderStatus> {
+    const session = await sessionService.authenticate(sessionId, token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const n8nResponse = await n8nService.getOrderStatus(
+      session.id,
+      {
+        cookies: session.cookies,
+        tokens: session.tokens,
+        sessionStorage: session.sessionStorage,
+        localStorage: session.localStorage,
+        storageState: session.storageState,
+      },
+      orderNumber
+    );
+
+    if (n8nResponse.status !== 'success') {
+      logger.warn({ sessionId: session.id, orderNumber }, 'Failed to get order status');
+
+      throw new AppError(
+        n8nResponse.message || 'Failed to get order status',
+        502,
+        'ORDER_STATUS_FAILED'
+      );
+    }
+
+    const status = this.toOrderStatus(orderNumber, n8nResponse);
+
+    logger.info(
+      { sessionId: session.id, orderNumber, stage: status.stage },
+      'Order status retrieved'
+    );
+
+    return status;
+  }
+
+  /**
+   * Build a structured order status from an n8n response
+   */
+  private toOrderStatus(orderNumber: string, response: N8nWebhookResponse): OrderStatus {
+    const raw = response.orderStatus || {};
+    const courier = raw.courier && Object.keys(raw.courier).length > 0 ? raw.courier : undefined;
+
+    return {
+      orderNumber,
+      stage: normalizeOrderStage(raw.stage || raw.statusText || response.message),
+      statusText: raw.statusText || response.message,
+      estimatedDeliveryTime: raw.estimatedDeliveryTime || response.estimatedDeliveryTime,
+      courier,
+      trackingUrl: raw.trackingUrl,
+      lastUpdated: raw.updatedAt || new Date().toISOString(),
+    };
+  }
+}
+
+// Export singleton instance
+export const orderService = new OrderService();
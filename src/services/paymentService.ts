@@ -0,0 +1,171 @@
+/**
+ * Payment Method Service with Redis-backed aliases
+ */
+
+import { n8nService } from './n8nService.js';
+import { PaymentAlias, PaymentMethod } from '../types/ubereats.js';
+import { SessionData } from '../types/session.js';
+import { redisConfig } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+import { redis } from '../utils/redis.js';
+import { AppError, NotFoundError, ValidationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('paymentService');
+
+/**
+ * Normalise a payment method from n8n, keeping at most the last four digits of the card
+ */
+export function normalizePaymentMethod(raw: any): PaymentMethod | null {
+  if (!raw || raw.id === undefined || raw.id === null || String(raw.id).trim() === '') {
+    return null;
+  }
+
+  // Never pass through more than the last four digits, whatever n8n scraped
+  const digits = String(raw.last4 ?? raw.number ?? '').replace(/\D/g, '');
+  const last4 = digits ? digits.slice(-4) : undefined;
+
+  const type = typeof raw.type === 'string' && raw.type.trim() ? raw.type.trim() : 'card';
+  const brand = typeof raw.brand === 'string' && raw.brand.trim() ? raw.brand.trim() : undefined;
+
+  return {
+    id: String(raw.id),
+    type,
+    brand,
+    last4,
+    expiry: typeof raw.expiry === 'string' ? raw.expiry : undefined,
+    isDefault: raw.isDefault === true,
+    display: [brand ?? type, last4 ? `•••• ${last4}` : undefined].filter(Boolean).join(' '),
+  };
+}
+
+export class PaymentService {
+  /**
+   * Hash of alias to serialized payment alias
+   */
+  private aliasesKey(username: string): string {
+    return `${redisConfig.keyPrefix}user:${username}:payment-aliases`;
+  }
+
+  private toSessionData(session: SessionData) {
+    return {
+      cookies: session.cookies,
+      tokens: session.tokens,
+      sessionStorage: session.sessionStorage,
+      localStorage: session.localStorage,
+      storageState: session.storageState,
+    };
+  }
+
+  /**
+   * List the account's payment methods, annotated with the user's aliases
+   */
+  async listPaymentMethods(session: SessionData): Promise<PaymentMethod[]> {
+    const response = await n8nService.listPaymentMethods(session.id, this.toSessionData(session));
+
+    if (response.status !== 'success') {
+      throw new AppError(
+        response.message || 'Failed to list payment methods',
+        502,
+        'LIST_PAYMENT_METHODS_FAILED'
+      );
+    }
+
+    const aliases = await this.listAliases(session.username);
+
+    const methods = (response.paymentMethods ?? [])
+      .map(normalizePaymentMethod)
+      .filter((m): m is PaymentMethod => m !== null)
+      .map((method) => ({
+        ...method,
+        aliases: aliases.filter((a) => a.paymentMethodId === method.id).map((a) => a.alias),
+      }));
+
+    logger.info({ sessionId: session.id, count: methods.length }, 'Payment methods listed');
+
+    return methods;
+  }
+
+  /**
+   * Point an alias at one of the account's payment methods, replacing any existing alias
+   */
+  async setAlias(
+    session: SessionData,
+    alias: string,
+    paymentMethodId: string
+  ): Promise<PaymentAlias> {
+    const methods = await this.listPaymentMethods(session);
+    const method = methods.find((m) => m.id === paymentMethodId);
+
+    if (!method) {
+      throw new NotFoundError(`Payment method "${paymentMethodId}"`);
+    }
+
+    const saved: PaymentAlias = {
+      alias,
+      paymentMethodId: method.id,
+      display: method.display,
+      createdAt: new Date().toISOString(),
+    };
+
+    await redis.hset(this.aliasesKey(session.username), alias, JSON.stringify(saved));
+
+    logger.info({ username: session.username, alias }, 'Payment alias saved');
+
+    return saved;
+  }
+
+  /**
+   * List the user's payment aliases sorted by alias
+   */
+  async listAliases(username: string): Promise<PaymentAlias[]> {
+    const entries = await redis.hgetall(this.aliasesKey(username));
+
+    return Object.values(entries)
+      .map((data) => JSON.parse(data) as PaymentAlias)
+      .sort((a, b) => a.alias.localeCompare(b.alias));
+  }
+
+  /**
+   * Delete a payment alias or throw NotFoundError
+   */
+  async deleteAlias(username: string, alias: string): Promise<void> {
+    const removed = await redis.hdel(this.aliasesKey(username), alias);
+
+    if (removed === 0) {
+      throw new NotFoundError(`Payment alias "${alias}"`);
+    }
+
+    logger.info({ username, alias }, 'Payment alias deleted');
+  }
+
+  /**
+   * Resolve an alias to its payment method ID. Anything that is not a saved alias must be
+   * the ID of one of the account's payment methods, or a ValidationError is thrown.
+   */
+  async resolvePaymentMethodId(session: SessionData, idOrAlias: string): Promise<string> {
+    const data = await redis.hget(
+      this.aliasesKey(session.username),
+      idOrAlias.trim().toLowerCase()
+    );
+
+    if (data) {
+      return (JSON.parse(data) as PaymentAlias).paymentMethodId;
+    }
+
+    const methods = await this.listPaymentMethods(session);
+    if (methods.some((m) => m.id === idOrAlias)) {
+      return idOrAlias;
+    }
+
+    const aliases = (await this.listAliases(session.username)).map((a) => a.alias);
+    throw new ValidationError(
+      aliases.length > 0
+        ? `Unknown payment method or alias "${idOrAlias}". Saved aliases: ${aliases.join(', ')}`
+        : `Unknown payment method "${idOrAlias}". Use an ID from ubereats_list_payment_methods`,
+      { paymentMethodId: idOrAlias, aliases, paymentMethodIds: methods.map((m) => m.id) }
+    );
+  }
+}
+
+// Export singleton instance
+export const paymentService = new PaymentService();
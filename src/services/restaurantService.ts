@@ -0,0 +1,660 @@
+/**
+ * Restaurant Discovery Service
+ */
+
+import { n8nService } from './n8nService.js';
+import {
+  DeliveryAvailability,
+  Menu,
+  MenuCategory,
+  MenuItem,
+  MenuValidationIssue,
+  ModifierGroup,
+  OpeningHours,
+  OrderItem,
+  Restaurant,
+  SearchRestaurantsInput,
+} from '../types/ubereats.js';
+import { SessionData } from '../types/session.js';
+import { redisConfig, menuConfig } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+import { redis } from '../utils/redis.js';
+import { findExactMatch, suggestMatches } from '../utils/fuzzyMatch.js';
+import { AppError, ValidationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('restaurantService');
+
+/**
+ * Parse a number n8n may have scraped as text (e.g. "$1.49", "4.7")
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    if (/free/i.test(value)) {
+      return 0;
+    }
+    const parsed = parseFloat(value.replace(/[^0-9.]/g, ''));
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Normalise a restaurant result from n8n; price tiers may arrive as "$$" strings
+ */
+export function normalizeRestaurant(raw: any): Restaurant | null {
+  if (!raw || typeof raw.name !== 'string' || raw.name.trim() === '') {
+    return null;
+  }
+
+  const priceTier =
+    typeof raw.priceTier === 'string' && /^\$+$/.test(raw.priceTier.trim())
+      ? raw.priceTier.trim().length
+      : toNumber(raw.priceTier);
+
+  const cuisines = Array.isArray(raw.cuisines)
+    ? raw.cuisines.filter((c: unknown): c is string => typeof c === 'string')
+    : typeof raw.cuisine === 'string'
+      ? [raw.cuisine]
+      : undefined;
+
+  return {
+    id: raw.id !== undefined ? String(raw.id) : undefined,
+    name: raw.name.trim(),
+    cuisines,
+    priceTier,
+    rating: toNumber(raw.rating),
+    ratingCount: toNumber(raw.ratingCount),
+    deliveryFee: toNumber(raw.deliveryFee),
+    estimatedDeliveryTime: raw.estimatedDeliveryTime,
+    isOpen: typeof raw.isOpen === 'boolean' ? raw.isOpen : undefined,
+    url: raw.url,
+  };
+}
+
+/**
+ * Normalise a modifier group, dropping options without a name
+ */
+function normalizeModifierGroup(raw: any): ModifierGroup | null {
+  if (!raw || typeof raw.name !== 'string' || !Array.isArray(raw.options)) {
+    return null;
+  }
+
+  return {
+    name: raw.name,
+    required: typeof raw.required === 'boolean' ? raw.required : undefined,
+    minSelections: toNumber(raw.minSelections),
+    maxSelections: toNumber(raw.maxSelections),
+    options: raw.options
+      .filter((o: any) => o && typeof o.name === 'string')
+      .map((o: any) => ({
+        name: o.name,
+        price: toNumber(o.price),
+        available: typeof o.available === 'boolean' ? o.available : undefined,
+      })),
+  };
+}
+
+/**
+ * Normalise menu categories from n8n, parsing scraped prices
+ */
+export function normalizeMenuCategories(raw: unknown): MenuCategory[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .filter((c: any) => c && typeof c.name === 'string' && Array.isArray(c.items))
+    .map((c: any) => ({
+      name: c.name,
+      items: c.items
+        .filter((i: any) => i && typeof i.name === 'string')
+        .map(
+          (i: any): MenuItem => ({
+            id: i.id !== undefined ? String(i.id) : undefined,
+            name: i.name,
+            description: i.description,
+            price: toNumber(i.price),
+            available: typeof i.available === 'boolean' ? i.available : undefined,
+            modifierGroups: Array.isArray(i.modifierGroups)
+              ? i.modifierGroups
+                  .map(normalizeModifierGroup)
+                  .filter((g: ModifierGroup | null): g is ModifierGroup => g !== null)
+              : undefined,
+          })
+        ),
+    }));
+}
+
+/**
+ * Keep well-formed opening hours entries from n8n
+ */
+function normalizeOpeningHours(raw: unknown): OpeningHours[] | undefined {
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+
+  return raw.filter(
+    (entry: any): entry is OpeningHours =>
+      entry &&
+      typeof entry.day === 'string' &&
+      typeof entry.open === 'string' &&
+      typeof entry.close === 'string'
+  );
+}
+
+/**
+ * Work out why delivery is not possible; an open restaurant that cannot deliver is out of range
+ */
+function unavailableReason(
+  isOpen: boolean | undefined,
+  reason?: string
+): NonNullable<DeliveryAvailability['unavailableReason']> {
+  if (isOpen === false) {
+    return 'closed';
+  }
+  if (isOpen === true || /area|range|distance|far/i.test(reason ?? '')) {
+    return 'out_of_delivery_area';
+  }
+  return 'other';
+}
+
+// Error codes used when a checkout is refused because delivery is not possible
+const UNAVAILABLE_CODES: Record<NonNullable<DeliveryAvailability['unavailableReason']>, string> = {
+  closed: 'RESTAURANT_CLOSED',
+  out_of_delivery_area: 'OUT_OF_DELIVERY_AREA',
+  other: 'DELIVERY_UNAVAILABLE',
+};
+
+export interface MenuValidationResult {
+  items: OrderItem[];
+  issues: MenuValidationIssue[];
+  corrections: Array<{ itemIndex: number; from: string; to: string }>;
+}
+
+/**
+ * Append "did you mean" suggestions to an error message
+ */
+function didYouMean(message: string, suggestions: string[]): string {
+  return suggestions.length
+    ? `${message}. Did you mean ${suggestions.map((s) => `"${s}"`).join(' or ')}?`
+    : message;
+}
+
+/**
+ * Check requested items against a menu. Names that differ only in case or punctuation
+ * are corrected to the menu's spelling; anything else unknown is reported as an issue.
+ * Modifiers (size, extras and modifier groups) are only checked when the menu lists the
+ * item's modifier groups, including required and min/max selection rules.
+ */
+export function checkItemsAgainstMenu(menu: Menu, items: OrderItem[]): MenuValidationResult {
+  const menuItems = menu.categories.flatMap((c) => c.items);
+  const menuNames = menuItems.map((i) => i.name);
+  const result: MenuValidationResult = { items: [], issues: [], corrections: [] };
+
+  items.forEach((item, itemIndex) => {
+    const addIssue = (
+      field: MenuValidationIssue['field'],
+      value: string,
+      message: string,
+      suggestions: string[] = [],
+      group?: string
+    ) => {
+      result.issues.push({ itemIndex, field, value, message, suggestions, group });
+    };
+
+    const correct = (from: string, to: string) => {
+      if (from !== to) {
+        result.corrections.push({ itemIndex, from, to });
+      }
+    };
+
+    const matchOption = (
+      field: MenuValidationIssue['field'],
+      value: string,
+      candidates: string[],
+      context: string,
+      group?: string
+    ): string => {
+      const match = findExactMatch(value, candidates);
+      if (match) {
+        correct(value, match);
+        return match;
+      }
+
+      const suggestions = suggestMatches(value, candidates);
+      addIssue(
+        field,
+        value,
+        didYouMean(`"${value}" is not an option for ${context}`, suggestions),
+        suggestions,
+        group
+      );
+      return value;
+    };
+
+    const name = findExactMatch(item.name, menuNames);
+    const menuItem = name ? menuItems.find((i) => i.name === name) : undefined;
+
+    if (!name || !menuItem) {
+      const suggestions = suggestMatches(item.name, menuNames);
+      addIssue(
+        'name',
+        item.name,
+        didYouMean(`"${item.name}" is not on the menu of ${menu.restaurantName}`, suggestions),
+        suggestions
+      );
+      result.items.push(item);
+      return;
+    }
+
+    if (menuItem.available === false) {
+      addIssue('name', item.name, `"${name}" is currently unavailable`);
+    }
+
+    correct(item.name, name);
+
+    const corrected: OrderItem = { ...item, name };
+    const groups = menuItem.modifierGroups;
+
+    if (!groups) {
+      result.items.push(corrected);
+      return;
+    }
+
+    const groupNames = groups.map((g) => g.name);
+    const allOptions = groups.flatMap((g) => g.options.map((o) => o.name));
+
+    if (item.options) {
+      const sizeGroups = groups.filter((g) => /size/i.test(g.name));
+      const sizeOptions = sizeGroups.length
+        ? sizeGroups.flatMap((g) => g.options.map((o) => o.name))
+        : allOptions;
+
+      corrected.options = {
+        ...item.options,
+        size:
+          item.options.size !== undefined
+            ? matchOption('size', item.options.size, sizeOptions, `"${name}"`)
+            : undefined,
+        extras: item.options.extras?.map((extra) =>
+          matchOption('extras', extra, allOptions, `"${name}"`)
+        ),
+      };
+    }
+
+    // Selections made per group, used for the required and min/max rules below
+    const chosen = new Map<ModifierGroup, string[]>();
+    const choose = (group: ModifierGroup, selection: string) => {
+      chosen.set(group, [...(chosen.get(group) ?? []), selection]);
+    };
+
+    if (item.modifiers) {
+      corrected.modifiers = item.modifiers.map((modifier) => {
+        const groupName = findExactMatch(modifier.group, groupNames);
+        const group = groups.find((g) => g.name === groupName);
+
+        if (!groupName || !group) {
+          const suggestions = suggestMatches(modifier.group, groupNames);
+          addIssue(
+            'modifiers',
+            modifier.group,
+            didYouMean(`"${modifier.group}" is not a modifier group of "${name}"`, suggestions),
+            suggestions
+          );
+          return modifier;
+        }
+
+        correct(modifier.group, groupName);
+
+        const options = group.options.map((o) => o.name);
+        const selections = modifier.selections.map((selection) =>
+          matchOption('modifiers', selection, options, `"${groupName}"`, groupName)
+        );
+
+        for (const selection of selections) {
+          const option = group.options.find((o) => o.name === selection);
+          if (option) {
+            choose(group, selection);
+            if (option.available === false) {
+              addIssue(
+                'modifiers',
+                selection,
+                `"${selection}" is currently unavailable`,
+                [],
+                groupName
+              );
+            }
+          }
+        }
+
+        return { group: groupName, selections };
+      });
+    }
+
+    // Plain size and extras count towards the group they belong to
+    for (const value of [corrected.options?.size, ...(corrected.options?.extras ?? [])]) {
+      const group = value ? groups.find((g) => g.options.some((o) => o.name === value)) : null;
+      if (value && group) {
+        choose(group, value);
+      }
+    }
+
+    for (const group of groups) {
+      const count = chosen.get(group)?.length ?? 0;
+      const min = group.minSelections ?? (group.required ? 1 : 0);
+
+      if (count < min) {
+        const choices = group.options.filter((o) => o.available !== false).map((o) => o.name);
+        addIssue(
+          'modifiers',
+          group.name,
+          `"${group.name}" needs at least ${min} selection(s) for "${name}"`,
+          choices,
+          group.name
+        );
+      }
+
+      if (group.maxSelections !== undefined && count > group.maxSelections) {
+        addIssue(
+          'modifiers',
+          group.name,
+          `"${group.name}" allows at most ${group.maxSelections} selection(s) for "${name}", got ${count}`,
+          [],
+          group.name
+        );
+      }
+    }
+
+    result.items.push(corrected);
+  });
+
+  return result;
+}
+
+/**
+ * Apply filters locally in case the n8n workflow could not apply them on the page.
+ * Restaurants missing a filtered field are kept rather than guessed at.
+ */
+function matchesFilters(restaurant: Restaurant, search: SearchRestaurantsInput): boolean {
+  if (search.cuisine && restaurant.cuisines?.length) {
+    const cuisine = search.cuisine.toLowerCase();
+    if (!restaurant.cuisines.some((c) => c.toLowerCase().includes(cuisine))) {
+      return false;
+    }
+  }
+  if (search.maxPriceTier !== undefined && restaurant.priceTier !== undefined) {
+    if (restaurant.priceTier > search.maxPriceTier) {
+      return false;
+    }
+  }
+  if (search.minRating !== undefined && restaurant.rating !== undefined) {
+    if (restaurant.rating < search.minRating) {
+      return false;
+    }
+  }
+  if (search.maxDeliveryFee !== undefined && restaurant.deliveryFee !== undefined) {
+    if (restaurant.deliveryFee > search.maxDeliveryFee) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export class RestaurantService {
+  private readonly menuKeyPrefix: string;
+
+  constructor() {
+    this.menuKeyPrefix = `${redisConfig.keyPrefix}menu:`;
+  }
+
+  /**
+   * Menus are cached per restaurant, keyed by a case- and whitespace-insensitive name
+   */
+  private menuKey(restaurantName: string): string {
+    return `${this.menuKeyPrefix}${restaurantName.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+  }
+
+  /**
+   * Session data forwarded to n8n for browser automation
+   */
+  private toSessionData(session: SessionData) {
+    return {
+      cookies: session.cookies,
+      tokens: session.tokens,
+      sessionStorage: session.sessionStorage,
+      localStorage: session.localStorage,
+      storageState: session.storageState,
+    };
+  }
+
+  /**
+   * Search restaurants delivering to the session's address
+   */
+  async search(session: SessionData, search: SearchRestaurantsInput): Promise<Restaurant[]> {
+    if (!session.deliveryAddress) {
+      throw new ValidationError(
+        'No delivery address set. Use ubereats_set_address before searching restaurants.'
+      );
+    }
+
+    const response = await n8nService.searchRestaurants(
+      session.id,
+      this.toSessionData(session),
+      session.deliveryAddress,
+      {
+        query: search.query,
+        cuisine: search.cuisine,
+        maxPriceTier: search.maxPriceTier,
+        minRating: search.minRating,
+        maxDeliveryFee: search.maxDeliveryFee,
+        limit: search.limit,
+      }
+    );
+
+    if (response.status !== 'success') {
+      throw new AppError(
+        response.message || 'Failed to search restaurants',
+        502,
+        'SEARCH_RESTAURANTS_FAILED'
+      );
+    }
+
+    const restaurants = (response.restaurants ?? [])
+      .map(normalizeRestaurant)
+      .filter((r): r is Restaurant => r !== null && matchesFilters(r, search))
+      .slice(0, search.limit);
+
+    logger.info(
+      { sessionId: session.id, query: search.query, resultCount: restaurants.length },
+      'Restaurant search completed'
+    );
+
+    return restaurants;
+  }
+
+  /**
+   * Check whether a restaurant delivers to the session's address right now
+   */
+  async checkAvailability(
+    session: SessionData,
+    restaurantName: string
+  ): Promise<DeliveryAvailability> {
+    if (!session.deliveryAddress) {
+      throw new ValidationError(
+        'No delivery address set. Use ubereats_set_address before checking availability.'
+      );
+    }
+
+    const response = await n8nService.checkAvailability(
+      session.id,
+      this.toSessionData(session),
+      restaurantName,
+      session.deliveryAddress
+    );
+
+    if (response.status !== 'success' || !response.availability) {
+      throw new AppError(
+        response.message || 'Failed to check delivery availability',
+        502,
+        'CHECK_AVAILABILITY_FAILED'
+      );
+    }
+
+    const raw = response.availability;
+    const isOpen = typeof raw.isOpen === 'boolean' ? raw.isOpen : undefined;
+    const deliverable = raw.deliverable ?? isOpen !== false;
+
+    const availability: DeliveryAvailability = {
+      restaurantName,
+      deliverable,
+      unavailableReason: deliverable ? undefined : unavailableReason(isOpen, raw.reason),
+      message: raw.reason,
+      isOpen,
+      openHours: normalizeOpeningHours(raw.openHours),
+      nextOpenTime: raw.nextOpenTime,
+      minimumOrder: toNumber(raw.minimumOrder),
+      estimatedDeliveryTime: raw.estimatedDeliveryTime,
+      deliveryFee: toNumber(raw.deliveryFee),
+      checkedAt: new Date().toISOString(),
+    };
+
+    logger.info(
+      {
+        sessionId: session.id,
+        restaurantName,
+        deliverable,
+        reason: availability.unavailableReason,
+      },
+      'Delivery availability checked'
+    );
+
+    return availability;
+  }
+
+  /**
+   * Throw if an order cannot be delivered: restaurant closed, address out of range, or
+   * subtotal below the restaurant's minimum order
+   */
+  assertDeliverable(availability: DeliveryAvailability, subtotal?: number): void {
+    if (!availability.deliverable) {
+      const reason = availability.unavailableReason ?? 'other';
+      const message =
+        reason === 'closed'
+          ? `${availability.restaurantName} is closed${availability.nextOpenTime ? ` until ${availability.nextOpenTime}` : ''}`
+          : reason === 'out_of_delivery_area'
+            ? `${availability.restaurantName} does not deliver to the current address`
+            : `${availability.restaurantName} cannot deliver right now`;
+
+      throw new AppError(
+        availability.message ? `${message}: ${availability.message}` : message,
+        409,
+        UNAVAILABLE_CODES[reason],
+        { availability }
+      );
+    }
+
+    if (
+      availability.minimumOrder !== undefined &&
+      subtotal !== undefined &&
+      subtotal < availability.minimumOrder
+    ) {
+      throw new AppError(
+        `Subtotal $${subtotal.toFixed(2)} is below the minimum order of $${availability.minimumOrder.toFixed(2)} at ${availability.restaurantName}`,
+        409,
+        'BELOW_MINIMUM_ORDER',
+        { availability, subtotal }
+      );
+    }
+  }
+
+  /**
+   * Get a cached menu without contacting n8n
+   */
+  async getCachedMenu(restaurantName: string): Promise<Menu | null> {
+    const data = await redis.get(this.menuKey(restaurantName));
+    return data ? (JSON.parse(data) as Menu) : null;
+  }
+
+  /**
+   * Get a restaurant's menu, fetching it through n8n only on a cache miss
+   */
+  async getMenu(
+    session: SessionData,
+    restaurantName: string,
+    options: { refresh?: boolean } = {}
+  ): Promise<{ menu: Menu; cached: boolean }> {
+    if (options.refresh) {
+      await this.invalidateMenu(restaurantName);
+    } else {
+      const cachedMenu = await this.getCachedMenu(restaurantName);
+      if (cachedMenu) {
+        logger.debug({ restaurantName }, 'Menu cache hit');
+        return { menu: cachedMenu, cached: true };
+      }
+    }
+
+    const response = await n8nService.getMenu(
+      session.id,
+      this.toSessionData(session),
+      restaurantName
+    );
+
+    const categories = normalizeMenuCategories(response.menu?.categories);
+
+    if (response.status !== 'success' || categories.length === 0) {
+      throw new AppError(response.message || 'Failed to load menu', 502, 'GET_MENU_FAILED');
+    }
+
+    const menu: Menu = {
+      restaurantName: response.menu?.restaurantName || restaurantName,
+      categories,
+      fetchedAt: new Date().toISOString(),
+    };
+
+    await redis.setex(
+      this.menuKey(restaurantName),
+      menuConfig.cacheTtlSeconds,
+      JSON.stringify(menu)
+    );
+
+    logger.info(
+      { sessionId: session.id, restaurantName, categoryCount: categories.length },
+      'Menu fetched and cached'
+    );
+
+    return { menu, cached: false };
+  }
+
+  /**
+   * Validate items against the cached menu, if there is one. Never fetches a menu.
+   */
+  async validateItems(
+    restaurantName: string,
+    items: OrderItem[]
+  ): Promise<MenuValidationResult | null> {
+    const menu = await this.getCachedMenu(restaurantName);
+    if (!menu) {
+      logger.debug({ restaurantName }, 'No cached menu; skipping item validation');
+      return null;
+    }
+
+    return checkItemsAgainstMenu(menu, items);
+  }
+
+  /**
+   * Drop a cached menu so the next lookup fetches it again
+   */
+  async invalidateMenu(restaurantName: string): Promise<boolean> {
+    const removed = await redis.del(this.menuKey(restaurantName));
+
+    logger.info({ restaurantName, removed: removed > 0 }, 'Menu cache invalidated');
+
+    return removed > 0;
+  }
+}
+
+// Export singleton instance
+export const restaurantService = new RestaurantService();
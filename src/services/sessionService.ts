@@ -4,61 +4,108 @@
 
 import { Redis } from 'ioredis';
 import { v4 as uuidv4 } from 'uuid';
-import jwt from 'jsonwebtoken';
 import {
   SessionData,
   SessionStatus,
   SessionCreateOptions,
   SessionUpdateOptions,
 } from '../types/session.js';
-import { redisConfig, sessionConfig, securityConfig } from '../config/environment.js';
+import { redisConfig, sessionConfig } from '../config/environment.js';
 import { createLogger } from '../utils/logger.js';
-import { NotFoundError, AuthenticationError, AppError } from '../utils/errorHandler.js';
+import { redis } from '../utils/redis.js';
+import { EncryptedPayload, FieldCipher, createFieldCipher } from '../utils/encryption.js';
+import { tokenService, TokenClaims } from './tokenService.js';
+import {
+  NotFoundError,
+  AuthenticationError,
+  AuthorizationError,
+  AppError,
+} from '../utils/errorHandler.js';
 
 const logger = createLogger('sessionService');
 
+// UberEats credentials, encrypted together at rest
+type SensitiveField = 'cookies' | 'tokens' | 'sessionStorage' | 'localStorage' | 'storageState';
+type SensitiveSessionData = Pick<SessionData, SensitiveField>;
+
+// Session as stored in Redis; records written before encryption have no `encrypted` field
+type StoredSession = Omit<SessionData, SensitiveField> &
+  Partial<SensitiveSessionData> & {
+    encrypted?: EncryptedPayload;
+  };
+
+// Reserve a session slot only while fewer than MAX_SESSIONS unexpired sessions are indexed.
+// KEYS[1] = expiry index; ARGV = now (ms), max sessions, expiresAt (ms), session ID
+const RESERVE_SESSION_SCRIPT = `
+if redis.call('ZCOUNT', KEYS[1], '(' .. ARGV[1], '+inf') >= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('ZADD', KEYS[1], ARGV[3], ARGV[4])
+return 1
+`;
+
+export interface ReencryptionResult {
+  total: number;
+  reencrypted: number;
+  failed: number;
+}
+
 export class SessionService {
   private redis: Redis;
   private readonly keyPrefix: string;
+  private readonly indexKey: string;
+  private readonly cipher: FieldCipher;
   private cleanupInterval?: NodeJS.Timeout;
 
   constructor() {
     this.keyPrefix = `${redisConfig.keyPrefix}session:`;
 
-    // Initialize Redis client
-    this.redis = new Redis({
-      host: redisConfig.host,
-      port: redisConfig.port,
-      password: redisConfig.password,
-      db: redisConfig.db,
-      retryStrategy: (times: number) => {
-        const delay = Math.min(times * 50, 2000);
-        logger.warn({ times, delay }, 'Redis connection retry');
-        return delay;
-      },
-      reconnectOnError: (err: Error) => {
-        logger.error({ err }, 'Redis reconnection error');
-        return true;
-      },
-    });
-
-    // Redis event handlers
-    this.redis.on('connect', () => {
-      logger.info('Redis connected successfully');
-    });
-
-    this.redis.on('error', (err: Error) => {
-      logger.error({ err }, 'Redis error');
-    });
-
-    this.redis.on('close', () => {
-      logger.warn('Redis connection closed');
-    });
+    // Sorted set of session IDs scored by expiresAt (ms)
+    this.indexKey = `${redisConfig.keyPrefix}sessions:by-expiry`;
+
+    // Use shared Redis client
+    this.redis = redis;
+
+    this.cipher = createFieldCipher();
 
     // Start cleanup interval
     this.startCleanupInterval();
   }
 
+  /**
+   * Serialize a session for Redis, encrypting its credentials bound to the session ID
+   */
+  private serialize(session: SessionData): string {
+    const { cookies, tokens, sessionStorage, localStorage, storageState, ...rest } = session;
+
+    const stored: StoredSession = {
+      ...rest,
+      encrypted: this.cipher.encrypt(
+        { cookies, tokens, sessionStorage, localStorage, storageState },
+        session.id
+      ),
+    };
+
+    return JSON.stringify(stored);
+  }
+
+  /**
+   * Parse a session from Redis, decrypting its credentials
+   */
+  private deserialize(data: string): SessionData {
+    const { encrypted, ...rest } = JSON.parse(data) as StoredSession;
+
+    // Plaintext record from before encryption; reencryptSessions() migrates these
+    if (!encrypted) {
+      return rest as SessionData;
+    }
+
+    return {
+      ...rest,
+      ...this.cipher.decrypt<SensitiveSessionData>(encrypted, rest.id),
+    };
+  }
+
   /**
    * Create a new session
    */
@@ -83,9 +130,17 @@ export class SessionService {
       metadata: options.metadata,
     };
 
-    // Check max sessions limit
-    const sessionCount = await this.getActiveSessionCount();
-    if (sessionCount >= sessionConfig.maxSessions) {
+    // Reserve a slot atomically so concurrent logins cannot exceed the max sessions limit
+    const reserved = await this.redis.eval(
+      RESERVE_SESSION_SCRIPT,
+      1,
+      this.indexKey,
+      now.getTime(),
+      sessionConfig.maxSessions,
+      expiresAt.getTime(),
+      sessionId
+    );
+    if (reserved !== 1) {
       throw new AppError('Maximum session limit reached', 503, 'MAX_SESSIONS_EXCEEDED');
     }
 
@@ -93,7 +148,13 @@ export class SessionService {
     const key = this.keyPrefix + sessionId;
     const ttl = Math.floor((expiresAt.getTime() - now.getTime()) / 1000);
 
-    await this.redis.setex(key, ttl, JSON.stringify(session));
+    try {
+      await this.redis.setex(key, ttl, this.serialize(session));
+    } catch (error) {
+      // Release the slot
+      await this.redis.zrem(this.indexKey, sessionId);
+      throw error;
+    }
 
     // Also store in a set for user's sessions
     await this.redis.sadd(`${redisConfig.keyPrefix}user:${options.username}:sessions`, sessionId);
@@ -114,7 +175,7 @@ export class SessionService {
       throw new NotFoundError('Session');
     }
 
-    const session = JSON.parse(data) as SessionData;
+    const session = this.deserialize(data);
 
     // Check if session is expired
     if (new Date(session.expiresAt) < new Date()) {
@@ -141,7 +202,11 @@ export class SessionService {
     if (updates.localStorage) {
       session.localStorage = { ...session.localStorage, ...updates.localStorage };
     }
+    if (updates.storageState !== undefined) session.storageState = updates.storageState;
     if (updates.loginCompletedAt) session.loginCompletedAt = updates.loginCompletedAt;
+    if (updates.orderNumbers) session.orderNumbers = updates.orderNumbers;
+    if (updates.cart !== undefined) session.cart = updates.cart ?? undefined;
+    if (updates.deliveryAddress) session.deliveryAddress = updates.deliveryAddress;
 
     session.updatedAt = new Date();
 
@@ -149,7 +214,7 @@ export class SessionService {
     const ttl = Math.floor((new Date(session.expiresAt).getTime() - Date.now()) / 1000);
 
     if (ttl > 0) {
-      await this.redis.setex(this.keyPrefix + sessionId, ttl, JSON.stringify(session));
+      await this.redis.setex(this.keyPrefix + sessionId, ttl, this.serialize(session));
     }
 
     logger.info({ sessionId }, 'Session updated');
@@ -161,21 +226,23 @@ export class SessionService {
    * Delete session
    */
   async deleteSession(sessionId: string): Promise<void> {
-    try {
-      const session = await this.getSession(sessionId);
-
-      // Remove from Redis
-      await this.redis.del(this.keyPrefix + sessionId);
+    // Read the raw record: the session may already be expired, and only its username is needed
+    const key = this.keyPrefix + sessionId;
+    const data = await this.redis.get(key);
 
-      // Remove from user's session set
-      await this.redis.srem(`${redisConfig.keyPrefix}user:${session.username}:sessions`, sessionId);
+    // Remove from Redis and the expiry index
+    await this.redis.del(key);
+    await this.redis.zrem(this.indexKey, sessionId);
 
-      logger.info({ sessionId }, 'Session deleted');
-    } catch (error) {
-      if (!(error instanceof NotFoundError)) {
-        throw error;
-      }
+    if (!data) {
+      return;
     }
+
+    // Remove from user's session set
+    const { username } = JSON.parse(data) as StoredSession;
+    await this.redis.srem(`${redisConfig.keyPrefix}user:${username}:sessions`, sessionId);
+
+    logger.info({ sessionId }, 'Session deleted');
   }
 
   /**
@@ -217,77 +284,242 @@ export class SessionService {
    * Get active session count
    */
   async getActiveSessionCount(): Promise<number> {
-    const keys = await this.redis.keys(`${this.keyPrefix}*`);
-    return keys.length;
+    return this.redis.zcount(this.indexKey, `(${Date.now()}`, '+inf');
   }
 
   /**
-   * Generate JWT token for session
+   * Iterate over stored session keys with SCAN, which does not block Redis like KEYS
    */
-  generateToken(sessionId: string, username: string): string {
-    return jwt.sign({ sessionId, username }, securityConfig.jwtSecret, {
-      expiresIn: `${sessionConfig.lifetimeMinutes}m`,
-    });
+  private async *scanSessionKeys(): AsyncGenerator<string> {
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        `${this.keyPrefix}*`,
+        'COUNT',
+        100
+      );
+      cursor = next;
+      yield* keys;
+    } while (cursor !== '0');
   }
 
   /**
-   * Verify JWT token
+   * Add sessions stored before the expiry index existed to the index
    */
-  verifyToken(token: string): { sessionId: string; username: string } {
+  async indexExistingSessions(): Promise<void> {
     try {
-      return jwt.verify(token, securityConfig.jwtSecret) as any;
-    } catch {
-      throw new AuthenticationError('Invalid token');
+      let indexedCount = 0;
+
+      for await (const key of this.scanSessionKeys()) {
+        const data = await this.redis.get(key);
+        if (!data) continue;
+
+        const { id, expiresAt } = JSON.parse(data) as StoredSession;
+        indexedCount += await this.redis.zadd(
+          this.indexKey,
+          'NX',
+          new Date(expiresAt).getTime(),
+          id
+        );
+      }
+
+      if (indexedCount > 0) {
+        logger.info({ indexedCount }, 'Existing sessions indexed');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Error indexing existing sessions');
     }
   }
 
   /**
-   * Extend session lifetime
+   * Generate JWT token for session, expiring with the session
+   */
+  generateToken(sessionId: string, username: string, expiresAt: Date): string {
+    return tokenService.sign(sessionId, username, expiresAt);
+  }
+
+  /**
+   * Verify JWT token, including the revocation denylist
+   */
+  async verifyToken(token: string): Promise<TokenClaims> {
+    return tokenService.verify(token);
+  }
+
+  /**
+   * Get a session on behalf of the holder of a login token.
+   * The token's sessionId and username claims must both match the session.
+   */
+  async authenticate(sessionId: string, token: string): Promise<SessionData> {
+    const claims = await this.verifyToken(token);
+
+    if (claims.sessionId !== sessionId) {
+      logger.warn({ claimedSessionId: claims.sessionId }, 'Token used for another session');
+      throw new AuthorizationError('Token was not issued for this session');
+    }
+
+    const session = await this.getSession(sessionId);
+
+    if (claims.username !== session.username) {
+      logger.warn({ sessionId }, 'Token username does not match session');
+      throw new AuthorizationError('Token was not issued for this session');
+    }
+
+    return session;
+  }
+
+  /**
+   * Latest expiry SESSION_MAX_LIFETIME_MINUTES allows for a session
+   */
+  getMaxExpiresAt(session: SessionData): Date {
+    return new Date(
+      new Date(session.createdAt).getTime() + sessionConfig.maxLifetimeMinutes * 60000
+    );
+  }
+
+  /**
+   * Store a session with a new expiry and matching TTL
+   */
+  private async setExpiry(session: SessionData, expiresAt: Date): Promise<SessionData> {
+    session.expiresAt = expiresAt;
+    session.updatedAt = new Date();
+
+    const ttl = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
+
+    await this.redis.setex(this.keyPrefix + session.id, ttl, this.serialize(session));
+    await this.redis.zadd(this.indexKey, expiresAt.getTime(), session.id);
+
+    return session;
+  }
+
+  /**
+   * Extend session lifetime, up to the maximum absolute lifetime
    */
   async extendSession(sessionId: string, additionalMinutes: number): Promise<SessionData> {
     const session = await this.getSession(sessionId);
 
+    const expiresAt = new Date(session.expiresAt).getTime();
+    const maxExpiresAt = this.getMaxExpiresAt(session);
+
+    if (expiresAt >= maxExpiresAt.getTime()) {
+      throw new AppError(
+        'Session has reached its maximum lifetime. Please login again.',
+        409,
+        'SESSION_MAX_LIFETIME_REACHED',
+        { maxExpiresAt }
+      );
+    }
+
     const newExpiresAt = new Date(
-      new Date(session.expiresAt).getTime() + additionalMinutes * 60000
+      Math.min(expiresAt + additionalMinutes * 60000, maxExpiresAt.getTime())
     );
 
-    session.expiresAt = newExpiresAt;
-    session.updatedAt = new Date();
+    await this.setExpiry(session, newExpiresAt);
+
+    logger.info({ sessionId, additionalMinutes, expiresAt: newExpiresAt }, 'Session extended');
 
-    const ttl = Math.floor((newExpiresAt.getTime() - Date.now()) / 1000);
+    return session;
+  }
 
-    await this.redis.setex(this.keyPrefix + sessionId, ttl, JSON.stringify(session));
+  /**
+   * Sliding expiration: push expiry to a full lifetime from now, up to the maximum
+   * absolute lifetime. Returns null when the expiry would move by less than a minute.
+   */
+  async touchSession(sessionId: string): Promise<SessionData | null> {
+    const session = await this.getSession(sessionId);
 
-    logger.info({ sessionId, additionalMinutes }, 'Session extended');
+    const newExpiresAt = new Date(
+      Math.min(
+        Date.now() + sessionConfig.lifetimeMinutes * 60000,
+        this.getMaxExpiresAt(session).getTime()
+      )
+    );
+
+    if (newExpiresAt.getTime() - new Date(session.expiresAt).getTime() < 60000) {
+      return null;
+    }
+
+    await this.setExpiry(session, newExpiresAt);
+
+    logger.debug({ sessionId, expiresAt: newExpiresAt }, 'Session expiry slid forward');
 
     return session;
   }
 
+  /**
+   * Record a successful tool call for sliding expiration. The login token is verified
+   * before the expiry moves, and a token lasting until the new expiry is issued.
+   */
+  async recordActivity(
+    sessionId: string,
+    token: string
+  ): Promise<{ expiresAt: Date; token: string } | null> {
+    await this.authenticate(sessionId, token);
+
+    const session = await this.touchSession(sessionId);
+
+    if (!session) {
+      return null;
+    }
+
+    return {
+      expiresAt: session.expiresAt,
+      token: this.generateToken(session.id, session.username, session.expiresAt),
+    };
+  }
+
+  /**
+   * Re-encrypt stored sessions that are plaintext or use an older key version.
+   * Used by the sessions:reencrypt command after rotating ENCRYPTION_KEY.
+   */
+  async reencryptSessions(): Promise<ReencryptionResult> {
+    let total = 0;
+    let reencrypted = 0;
+    let failed = 0;
+
+    for await (const key of this.scanSessionKeys()) {
+      total++;
+      try {
+        const data = await this.redis.get(key);
+        if (!data) continue;
+
+        const { encrypted } = JSON.parse(data) as StoredSession;
+        if (encrypted && !this.cipher.isStale(encrypted)) continue;
+
+        // Keep the remaining lifetime; skip records that expire meanwhile
+        const ttl = await this.redis.ttl(key);
+        if (ttl <= 0) continue;
+
+        await this.redis.setex(key, ttl, this.serialize(this.deserialize(data)));
+        reencrypted++;
+      } catch (error) {
+        failed++;
+        logger.error({ err: error, key }, 'Failed to re-encrypt session');
+      }
+    }
+
+    logger.info(
+      { total, reencrypted, failed, keyVersion: this.cipher.keyVersion },
+      'Session re-encryption finished'
+    );
+
+    return { total, reencrypted, failed };
+  }
+
   /**
    * Clean up expired sessions
    */
   private async cleanupExpiredSessions(): Promise<void> {
     try {
-      const keys = await this.redis.keys(`${this.keyPrefix}*`);
-      let cleanedCount = 0;
+      const expiredIds = await this.redis.zrangebyscore(this.indexKey, '-inf', Date.now());
 
-      for (const key of keys) {
-        const data = await this.redis.get(key);
-        if (data) {
-          const session = JSON.parse(data) as SessionData;
-          if (new Date(session.expiresAt) < new Date()) {
-            await this.redis.del(key);
-            await this.redis.srem(
-              `${redisConfig.keyPrefix}user:${session.username}:sessions`,
-              session.id
-            );
-            cleanedCount++;
-          }
-        }
+      for (const sessionId of expiredIds) {
+        await this.deleteSession(sessionId);
       }
 
-      if (cleanedCount > 0) {
-        logger.info({ cleanedCount }, 'Expired sessions cleaned up');
+      if (expiredIds.length > 0) {
+        logger.info({ cleanedCount: expiredIds.length }, 'Expired sessions cleaned up');
       }
     } catch (error) {
       logger.error({ err: error }, 'Error cleaning up expired sessions');
@@ -0,0 +1,219 @@
+/**
+ * Spending Limits Service with Redis
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { redisConfig, spendingConfig } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+import { redis } from '../utils/redis.js';
+import { AppError, SpendingLimitError } from '../utils/errorHandler.js';
+
+const logger = createLogger('spendingService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Sum the rolling windows in cents and add the reservation only if both limits still hold.
+ * Entries are "<id>:<amount>"; a limit of 0 is not enforced. Returns [exceeded window, spend].
+ */
+const RESERVE_SPEND_SCRIPT = `
+local now = tonumber(ARGV[1])
+local day = tonumber(ARGV[2])
+local week = tonumber(ARGV[3])
+local dailyLimit = tonumber(ARGV[4])
+local weeklyLimit = tonumber(ARGV[5])
+local amount = tonumber(ARGV[6])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - week)
+local entries = redis.call('ZRANGEBYSCORE', KEYS[1], now - week, '+inf', 'WITHSCORES')
+
+local daily = 0
+local weekly = 0
+for i = 1, #entries, 2 do
+  local cents = math.floor(tonumber(string.match(entries[i], '[^:]+$')) * 100 + 0.5)
+  weekly = weekly + cents
+  if tonumber(entries[i + 1]) >= now - day then
+    daily = daily + cents
+  end
+end
+
+if dailyLimit > 0 and daily + amount > dailyLimit then
+  return {'daily', daily}
+end
+if weeklyLimit > 0 and weekly + amount > weeklyLimit then
+  return {'weekly', weekly}
+end
+
+redis.call('ZADD', KEYS[1], now, ARGV[7])
+redis.call('PEXPIRE', KEYS[1], week)
+return {'', 0}
+`;
+
+/**
+ * Convert dollars to whole cents so sums compare exactly
+ */
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export interface SpendingLimits {
+  perOrder: number;
+  daily: number;
+  weekly: number;
+  maxTipPercent: number;
+}
+
+export interface SpendingCheck {
+  total: number;
+  subtotal?: number;
+  tip?: number;
+}
+
+export class SpendingService {
+  /**
+   * Sorted set of spend entries scored by time, next to the user's session set
+   */
+  private spendKey(username: string): string {
+    return `${redisConfig.keyPrefix}user:${username}:spend`;
+  }
+
+  /**
+   * Get effective limits for a user (0 means no limit)
+   */
+  getLimits(username: string): SpendingLimits {
+    return { ...spendingConfig.limits, ...spendingConfig.overrides[username] };
+  }
+
+  /**
+   * Whether any limit needing the order amount is configured for the user
+   */
+  hasAmountLimits(username: string): boolean {
+    const limits = this.getLimits(username);
+    return limits.perOrder > 0 || limits.daily > 0 || limits.weekly > 0 || limits.maxTipPercent > 0;
+  }
+
+  /**
+   * Check the tip and per-order limits, then atomically check the rolling limits and
+   * reserve the total against them. Throws SpendingLimitError if a limit would be exceeded.
+   * The reservation must be confirmed with confirmSpend or rolled back with releaseSpend.
+   */
+  async reserveSpend(username: string, check: SpendingCheck): Promise<string> {
+    const limits = this.getLimits(username);
+
+    if (limits.maxTipPercent > 0 && check.tip) {
+      // Without a subtotal the tip cap cannot be checked, so refuse rather than skip it
+      if (!check.subtotal) {
+        throw new AppError(
+          'Could not determine the order subtotal to check the tip limit',
+          502,
+          'SPENDING_CHECK_FAILED'
+        );
+      }
+
+      const tipPercent = (check.tip / check.subtotal) * 100;
+      if (tipPercent > limits.maxTipPercent) {
+        throw new SpendingLimitError(
+          'tip_percent',
+          `Tip of ${tipPercent.toFixed(1)}% exceeds the maximum of ${limits.maxTipPercent}%`,
+          { limitValue: limits.maxTipPercent, attempted: Math.round(tipPercent * 10) / 10 }
+        );
+      }
+    }
+
+    if (limits.perOrder > 0 && check.total > limits.perOrder) {
+      throw new SpendingLimitError(
+        'per_order',
+        `Order total $${check.total.toFixed(2)} exceeds the per-order limit of $${limits.perOrder.toFixed(2)}`,
+        { limitValue: limits.perOrder, attempted: check.total }
+      );
+    }
+
+    const reservation = `pending-${uuidv4()}:${check.total}`;
+
+    const [exceeded, spendCents] = (await redis.eval(
+      RESERVE_SPEND_SCRIPT,
+      1,
+      this.spendKey(username),
+      Date.now(),
+      DAY_MS,
+      WEEK_MS,
+      toCents(limits.daily),
+      toCents(limits.weekly),
+      toCents(check.total),
+      reservation
+    )) as [string, number];
+
+    const currentSpend = spendCents / 100;
+
+    if (exceeded === 'daily') {
+      throw new SpendingLimitError(
+        'daily',
+        `Order would bring 24-hour spend to $${(currentSpend + check.total).toFixed(2)}, over the daily limit of $${limits.daily.toFixed(2)}`,
+        { limitValue: limits.daily, attempted: check.total, currentSpend }
+      );
+    }
+
+    if (exceeded === 'weekly') {
+      throw new SpendingLimitError(
+        'weekly',
+        `Order would bring 7-day spend to $${(currentSpend + check.total).toFixed(2)}, over the weekly limit of $${limits.weekly.toFixed(2)}`,
+        { limitValue: limits.weekly, attempted: check.total, currentSpend }
+      );
+    }
+
+    logger.info({ username, amount: check.total }, 'Spend reserved');
+
+    return reservation;
+  }
+
+  /**
+   * Replace a reservation with the placed order's final amount
+   */
+  async confirmSpend(
+    username: string,
+    reservation: string,
+    orderNumber: string | undefined,
+    amount: number
+  ): Promise<void> {
+    const key = this.spendKey(username);
+
+    await redis
+      .multi()
+      .zrem(key, reservation)
+      .zadd(key, Date.now(), `${orderNumber ?? uuidv4()}:${amount}`)
+      .pexpire(key, WEEK_MS)
+      .exec();
+
+    logger.info({ username, orderNumber, amount }, 'Spend recorded');
+  }
+
+  /**
+   * Roll back a reservation for an order that was not placed
+   */
+  async releaseSpend(username: string, reservation: string): Promise<void> {
+    await redis.zrem(this.spendKey(username), reservation);
+
+    logger.info({ username }, 'Spend reservation released');
+  }
+
+  /**
+   * Record a placed order against the user's rolling totals. Orders without a
+   * confirmation number are recorded under a generated ID.
+   */
+  async recordSpend(
+    username: string,
+    orderNumber: string | undefined,
+    amount: number
+  ): Promise<void> {
+    const key = this.spendKey(username);
+
+    await redis.zadd(key, Date.now(), `${orderNumber ?? uuidv4()}:${amount}`);
+    await redis.pexpire(key, WEEK_MS);
+
+    logger.info({ username, orderNumber, amount }, 'Spend recorded');
+  }
+}
+
+// Export singleton instance
+export const spendingService = new SpendingService();
@@ -0,0 +1,148 @@
+/**
+ * JWT Signing, Key Rotation and Revocation Service with Redis
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import jwt from 'jsonwebtoken';
+import { redisConfig, securityConfig, sessionConfig } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+import { redis } from '../utils/redis.js';
+import { AuthenticationError, ValidationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('tokenService');
+
+const ALGORITHM = 'HS256';
+
+export interface TokenClaims {
+  sessionId: string;
+  username: string;
+  jti?: string; // Absent on tokens issued before revocation support
+  exp?: number;
+  iat?: number;
+}
+
+export type RevocationReason = 'logout' | 'admin';
+
+export class TokenService {
+  private readonly keys = new Map<string, string>();
+
+  constructor(
+    private readonly currentKeyId: string,
+    private readonly currentSecret: string,
+    previousSecrets: Record<string, string> = {}
+  ) {
+    for (const [keyId, secret] of Object.entries(previousSecrets)) {
+      this.keys.set(keyId, secret);
+    }
+    this.keys.set(currentKeyId, currentSecret);
+  }
+
+  /**
+   * Denylist entry for a revoked token ID, kept until the token would have expired
+   */
+  private denylistKey(jti: string): string {
+    return `${redisConfig.keyPrefix}jwt:denylist:${jti}`;
+  }
+
+  /**
+   * Sign a token with the current key, identified by the `kid` header.
+   * The token expires with the session it was issued for.
+   */
+  sign(sessionId: string, username: string, expiresAt: Date): string {
+    const exp = Math.floor(new Date(expiresAt).getTime() / 1000);
+
+    return jwt.sign({ sessionId, username, exp }, this.currentSecret, {
+      algorithm: ALGORITHM,
+      jwtid: uuidv4(),
+      keyid: this.currentKeyId,
+    });
+  }
+
+  /**
+   * Verify a token's signature, expiry and revocation status
+   */
+  async verify(token: string): Promise<TokenClaims> {
+    const claims = this.verifySignature(token);
+
+    if (claims.jti && (await this.isRevoked(claims.jti))) {
+      throw new AuthenticationError('Token has been revoked. Please login again.');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Verify with the key named by the `kid` header; tokens without one use the current key
+   */
+  private verifySignature(token: string): TokenClaims {
+    const decoded = jwt.decode(token, { complete: true });
+    const keyId = decoded?.header.kid ?? this.currentKeyId;
+    const secret = this.keys.get(keyId);
+
+    if (!decoded || !secret) {
+      throw new AuthenticationError('Invalid token');
+    }
+
+    try {
+      return jwt.verify(token, secret, { algorithms: [ALGORITHM] }) as TokenClaims;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AuthenticationError('Token expired. Please login again.');
+      }
+      throw new AuthenticationError('Invalid token');
+    }
+  }
+
+  /**
+   * Revoke a token ID until it expires. Without a known expiry the entry is kept for
+   * the longest lifetime a token can have.
+   */
+  async revoke(jti: string, reason: RevocationReason, expiresAt?: number): Promise<void> {
+    const maxTtl = sessionConfig.maxLifetimeMinutes * 60;
+    const ttl =
+      expiresAt !== undefined
+        ? Math.min(expiresAt - Math.floor(Date.now() / 1000), maxTtl)
+        : maxTtl;
+
+    if (ttl <= 0) {
+      return; // Already expired
+    }
+
+    await redis.setex(this.denylistKey(jti), ttl, reason);
+
+    logger.info({ jti, reason, ttl }, 'Token revoked');
+  }
+
+  /**
+   * Revoke a token given in full. The signature is not checked, so tokens signed with a
+   * retired key can still be revoked. Returns null for tokens without an ID.
+   */
+  async revokeToken(token: string, reason: RevocationReason): Promise<TokenClaims | null> {
+    const claims = jwt.decode(token) as TokenClaims | null;
+
+    if (!claims || typeof claims !== 'object') {
+      throw new ValidationError('Malformed token');
+    }
+
+    if (!claims.jti) {
+      return null;
+    }
+
+    await this.revoke(claims.jti, reason, claims.exp);
+    return claims;
+  }
+
+  /**
+   * Whether a token ID is on the denylist
+   */
+  async isRevoked(jti: string): Promise<boolean> {
+    return (await redis.exists(this.denylistKey(jti))) === 1;
+  }
+}
+
+// Export singleton instance
+export const tokenService = new TokenService(
+  securityConfig.jwtKeyId,
+  securityConfig.jwtSecret,
+  securityConfig.previousJwtSecrets
+);
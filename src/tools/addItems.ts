@@ -5,9 +5,11 @@
 import { AddItemsSchema } from '../types/ubereats.js';
 import { sessionService } from '../services/sessionService.js';
 import { n8nService } from '../services/n8nService.js';
+import { cartService } from '../services/cartService.js';
+import { restaurantService } from '../services/restaurantService.js';
 import { SessionStatus } from '../types/session.js';
 import { createLogger } from '../utils/logger.js';
-import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+import { handleError, AppError, AuthenticationError } from '../utils/errorHandler.js';
 
 const logger = createLogger('addItemsTool');
 
@@ -28,13 +30,34 @@ export async function addItemsHandler(args: unknown): Promise<any> {
       'Adding items to cart'
     );
 
-    // Get and validate session
-    const session = await sessionService.getSession(input.sessionId);
+    // Check the login token, then validate session
+    const activeSession = await sessionService.authenticate(input.sessionId, input.token);
 
-    if (session.status !== SessionStatus.ACTIVE) {
+    if (activeSession.status !== SessionStatus.ACTIVE) {
       throw new AuthenticationError('Session is not active. Please complete login first.');
     }
 
+    // Catch typos against the cached menu before starting a browser automation run
+    const validation = await restaurantService.validateItems(input.restaurantName, input.items);
+
+    if (validation && validation.issues.length > 0) {
+      throw new AppError(
+        validation.issues.map((issue) => issue.message).join(' '),
+        400,
+        'MENU_VALIDATION_FAILED',
+        { issues: validation.issues }
+      );
+    }
+
+    const items = validation?.items ?? input.items;
+
+    // The cart holds one restaurant; refuse or replace before touching it
+    const session = await cartService.ensureRestaurant(
+      activeSession,
+      input.restaurantName,
+      input.replaceCart
+    );
+
     // Call n8n add items webhook
     const n8nResponse = await n8nService.addItems(
       session.id,
@@ -46,7 +69,7 @@ export async function addItemsHandler(args: unknown): Promise<any> {
         storageState: session.storageState,
       },
       input.restaurantName,
-      input.items
+      items
     );
 
     if (n8nResponse.status === 'success') {
@@ -58,13 +81,23 @@ export async function addItemsHandler(args: unknown): Promise<any> {
         'Items added successfully'
       );
 
+      // Keep the cart on the session so it can be viewed, edited and checked out
+      const cart = await cartService.recordAddedItems(
+        session,
+        input.restaurantName,
+        items,
+        n8nResponse
+      );
+
       return {
         status: 'success',
         message: 'Items added to cart successfully',
         cartTotal: n8nResponse.cartTotal,
         data: {
           restaurant: input.restaurantName,
-          items: input.items,
+          items,
+          corrections: validation?.corrections,
+          cart,
           timestamp: new Date().toISOString(),
         },
       };
@@ -100,6 +133,10 @@ export const addItemsTool = {
         type: 'string',
         description: 'Session ID from login',
       },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
       restaurantName: {
         type: 'string',
         description: 'Name of the restaurant',
@@ -142,12 +179,39 @@ export const addItemsTool = {
                 },
               },
             },
+            modifiers: {
+              type: 'array',
+              description:
+                'Modifier group choices, e.g. [{ "group": "Choose a side", "selections": ["Fries"] }]',
+              items: {
+                type: 'object',
+                properties: {
+                  group: {
+                    type: 'string',
+                    description: 'Modifier group name as shown on the menu',
+                  },
+                  selections: {
+                    type: 'array',
+                    description: 'Chosen options in the group',
+                    items: { type: 'string' },
+                    minItems: 1,
+                  },
+                },
+                required: ['group', 'selections'],
+              },
+            },
           },
           required: ['name', 'quantity'],
         },
         minItems: 1,
       },
+      replaceCart: {
+        type: 'boolean',
+        description:
+          'Clear a cart holding items from a different restaurant before adding (otherwise CART_RESTAURANT_CONFLICT is returned)',
+        default: false,
+      },
     },
-    required: ['sessionId', 'restaurantName', 'items'],
+    required: ['sessionId', 'token', 'restaurantName', 'items'],
   },
 };
@@ -0,0 +1,208 @@
+/**
+ * Address Book Tools for MCP Server
+ */
+
+import { SaveAddressSchema, DeleteAddressSchema } from '../types/ubereats.js';
+import { SessionAuthSchema, SessionStatus } from '../types/session.js';
+import { sessionService } from '../services/sessionService.js';
+import { addressBookService } from '../services/addressBookService.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('addressBookTool');
+
+// Saved addresses belong to the user, so managing them needs an active session and its login token
+
+/**
+ * Save address handler
+ */
+export async function saveAddressHandler(args: unknown): Promise<any> {
+  try {
+    const input = SaveAddressSchema.parse(args);
+
+    logger.info({ sessionId: input.sessionId, label: input.label }, 'Saving address');
+
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+    const saved = await addressBookService.saveAddress(
+      session.username,
+      input.label,
+      input.address
+    );
+
+    return {
+      status: 'success',
+      message: `Address saved as "${saved.label}"`,
+      data: saved,
+    };
+  } catch (error) {
+    logger.error({ error }, 'Save address tool error');
+    return handleError(error);
+  }
+}
+
+/**
+ * List addresses handler
+ */
+export async function listAddressesHandler(args: unknown): Promise<any> {
+  try {
+    const input = SessionAuthSchema.parse(args);
+
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+    const [addresses, lastUsed] = await Promise.all([
+      addressBookService.listAddresses(session.username),
+      addressBookService.getLastUsed(session.username),
+    ]);
+
+    return {
+      status: 'success',
+      message: `Found ${addresses.length} saved address(es)`,
+      data: {
+        addresses,
+        lastUsed,
+      },
+    };
+  } catch (error) {
+    logger.error({ error }, 'List addresses tool error');
+    return handleError(error);
+  }
+}
+
+/**
+ * Delete address handler
+ */
+export async function deleteAddressHandler(args: unknown): Promise<any> {
+  try {
+    const input = DeleteAddressSchema.parse(args);
+
+    logger.info({ sessionId: input.sessionId, label: input.label }, 'Deleting address');
+
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+    await addressBookService.deleteAddress(session.username, input.label);
+
+    return {
+      status: 'success',
+      message: `Saved address "${input.label}" deleted`,
+    };
+  } catch (error) {
+    logger.error({ error }, 'Delete address tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definitions
+export const saveAddressTool = {
+  name: 'ubereats_save_address',
+  description:
+    'Save a delivery address under a label (e.g. "home") for use with ubereats_set_address',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      label: {
+        type: 'string',
+        description: 'Name for the address, e.g. "home" or "office-3rd-floor" (case-insensitive)',
+        maxLength: 50,
+      },
+      address: {
+        type: 'object',
+        description: 'Delivery address details',
+        properties: {
+          street: {
+            type: 'string',
+            description: 'Street address',
+          },
+          city: {
+            type: 'string',
+            description: 'City',
+          },
+          state: {
+            type: 'string',
+            description:
+              'State (2-letter code in the US, e.g. NSW in AU, province code in CA; optional county in the UK)',
+          },
+          zipCode: {
+            type: 'string',
+            description: 'ZIP code or postcode in the format of the country',
+          },
+          country: {
+            type: 'string',
+            description: 'Country code: US (default), AU, CA or GB/UK',
+            enum: ['US', 'AU', 'CA', 'GB', 'UK'],
+          },
+          aptSuite: {
+            type: 'string',
+            description: 'Apartment or suite number (optional)',
+          },
+          deliveryInstructions: {
+            type: 'string',
+            description: 'Delivery instructions (optional)',
+            maxLength: 500,
+          },
+        },
+        required: ['street', 'city', 'zipCode'],
+      },
+    },
+    required: ['sessionId', 'token', 'label', 'address'],
+  },
+};
+
+export const listAddressesTool = {
+  name: 'ubereats_list_addresses',
+  description: "List the user's saved delivery addresses and the address used last",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+    },
+    required: ['sessionId', 'token'],
+  },
+};
+
+export const deleteAddressTool = {
+  name: 'ubereats_delete_address',
+  description: 'Delete a saved delivery address',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      label: {
+        type: 'string',
+        description: 'Label of the saved address',
+      },
+    },
+    required: ['sessionId', 'token', 'label'],
+  },
+};
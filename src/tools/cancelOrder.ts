@@ -0,0 +1,177 @@
+/**
+ * Cancel Order Tool for MCP Server
+ */
+
+import { CancelOrderSchema } from '../types/ubereats.js';
+import { sessionService } from '../services/sessionService.js';
+import { n8nService } from '../services/n8nService.js';
+import { SessionStatus } from '../types/session.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError, AuthorizationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('cancelOrderTool');
+
+/**
+ * Cancel order handler
+ */
+export async function cancelOrderHandler(args: unknown): Promise<any> {
+  try {
+    // Validate input
+    const input = CancelOrderSchema.parse(args);
+
+    logger.info(
+      {
+        sessionId: input.sessionId,
+        orderNumber: input.orderNumber,
+        confirmed: input.confirm,
+      },
+      'Cancelling order'
+    );
+
+    // Check the login token, then validate session
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    if (!session.orderNumbers?.includes(input.orderNumber)) {
+      throw new AuthorizationError(`Order ${input.orderNumber} was not placed in this session`);
+    }
+
+    // Cancellation is irreversible, so require an explicit confirmation
+    if (!input.confirm) {
+      return {
+        status: 'error',
+        message: `Cancelling order ${input.orderNumber} cannot be undone. Call again with confirm: true to proceed.`,
+        code: 'CONFIRMATION_REQUIRED',
+      };
+    }
+
+    // Call n8n cancel order webhook
+    const n8nResponse = await n8nService.cancelOrder(
+      session.id,
+      {
+        cookies: session.cookies,
+        tokens: session.tokens,
+        sessionStorage: session.sessionStorage,
+        localStorage: session.localStorage,
+        storageState: session.storageState,
+      },
+      input.orderNumber,
+      input.reason
+    );
+
+    const outcome = n8nResponse.cancellation?.outcome;
+
+    if (n8nResponse.status === 'success' && outcome === 'partial_refund') {
+      logger.info(
+        {
+          sessionId: session.id,
+          orderNumber: input.orderNumber,
+          refundAmount: n8nResponse.cancellation?.refundAmount,
+        },
+        'Order cancelled with partial refund'
+      );
+
+      return {
+        status: 'success',
+        message:
+          n8nResponse.message || 'Order cancelled, but only part of the amount will be refunded',
+        code: 'CANCELLATION_PARTIAL_REFUND',
+        data: {
+          orderNumber: input.orderNumber,
+          refundAmount: n8nResponse.cancellation?.refundAmount,
+          chargedAmount: n8nResponse.cancellation?.chargedAmount,
+          reason: input.reason,
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
+    if (n8nResponse.status === 'success' && outcome !== 'too_late') {
+      logger.info(
+        { sessionId: session.id, orderNumber: input.orderNumber },
+        'Order cancelled successfully'
+      );
+
+      return {
+        status: 'success',
+        message: n8nResponse.message || 'Order cancelled successfully',
+        code: 'CANCELLATION_ACCEPTED',
+        data: {
+          orderNumber: input.orderNumber,
+          refundAmount: n8nResponse.cancellation?.refundAmount,
+          reason: input.reason,
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
+    if (outcome === 'too_late') {
+      logger.warn(
+        { sessionId: session.id, orderNumber: input.orderNumber },
+        'Order cancellation refused as too late'
+      );
+
+      return {
+        status: 'error',
+        message: n8nResponse.message || 'Order can no longer be cancelled',
+        code: 'CANCELLATION_TOO_LATE',
+      };
+    }
+
+    logger.warn(
+      {
+        sessionId: session.id,
+        orderNumber: input.orderNumber,
+        error: n8nResponse.message,
+      },
+      'Order cancellation failed'
+    );
+
+    return {
+      status: 'error',
+      message: n8nResponse.message || 'Order cancellation failed',
+      code: 'CANCELLATION_FAILED',
+    };
+  } catch (error) {
+    logger.error({ error }, 'Cancel order tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definition
+export const cancelOrderTool = {
+  name: 'ubereats_cancel_order',
+  description:
+    'Cancel an order placed in this session. Requires confirm: true; reports accepted, too late (CANCELLATION_TOO_LATE) or partial refund (CANCELLATION_PARTIAL_REFUND)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      orderNumber: {
+        type: 'string',
+        description: 'Order confirmation number returned by checkout',
+      },
+      reason: {
+        type: 'string',
+        description: 'Reason for cancelling (optional)',
+        maxLength: 500,
+      },
+      confirm: {
+        type: 'boolean',
+        description: 'Must be true to confirm the cancellation',
+        default: false,
+      },
+    },
+    required: ['sessionId', 'token', 'orderNumber', 'confirm'],
+  },
+};
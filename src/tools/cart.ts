@@ -0,0 +1,244 @@
+/**
+ * Cart Tools for MCP Server
+ */
+
+import { ViewCartSchema, UpdateCartItemSchema, RemoveCartItemSchema } from '../types/ubereats.js';
+import { SessionAuthSchema, SessionStatus } from '../types/session.js';
+import { sessionService } from '../services/sessionService.js';
+import { cartService } from '../services/cartService.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('cartTool');
+
+/**
+ * Get a session for the holder of its login token and make sure it is logged in
+ */
+async function getActiveSession(sessionId: string, token: string) {
+  const session = await sessionService.authenticate(sessionId, token);
+
+  if (session.status !== SessionStatus.ACTIVE) {
+    throw new AuthenticationError('Session is not active. Please complete login first.');
+  }
+
+  return session;
+}
+
+/**
+ * View cart handler
+ */
+export async function viewCartHandler(args: unknown): Promise<any> {
+  try {
+    const input = ViewCartSchema.parse(args);
+
+    logger.info({ sessionId: input.sessionId, refresh: input.refresh }, 'Viewing cart');
+
+    const session = await getActiveSession(input.sessionId, input.token);
+    const cart = input.refresh
+      ? await cartService.refreshCart(session)
+      : cartService.getCart(session);
+
+    return {
+      status: 'success',
+      message: cart ? `Cart has ${cart.items.length} item(s)` : 'Cart is empty',
+      data: {
+        cart,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    logger.error({ error }, 'View cart tool error');
+    return handleError(error);
+  }
+}
+
+/**
+ * Update cart item handler
+ */
+export async function updateCartItemHandler(args: unknown): Promise<any> {
+  try {
+    const input = UpdateCartItemSchema.parse(args);
+
+    logger.info({ sessionId: input.sessionId, lineId: input.lineId }, 'Updating cart item');
+
+    const session = await getActiveSession(input.sessionId, input.token);
+    const cart = await cartService.updateItem(session, input.lineId, {
+      quantity: input.quantity,
+      options: input.options,
+    });
+
+    return {
+      status: 'success',
+      message: 'Cart item updated successfully',
+      data: {
+        cart,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    logger.error({ error }, 'Update cart item tool error');
+    return handleError(error);
+  }
+}
+
+/**
+ * Remove cart item handler
+ */
+export async function removeCartItemHandler(args: unknown): Promise<any> {
+  try {
+    const input = RemoveCartItemSchema.parse(args);
+
+    logger.info({ sessionId: input.sessionId, lineId: input.lineId }, 'Removing cart item');
+
+    const session = await getActiveSession(input.sessionId, input.token);
+    const cart = await cartService.removeItem(session, input.lineId);
+
+    return {
+      status: 'success',
+      message: 'Cart item removed successfully',
+      data: {
+        cart,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    logger.error({ error }, 'Remove cart item tool error');
+    return handleError(error);
+  }
+}
+
+/**
+ * Clear cart handler
+ */
+export async function clearCartHandler(args: unknown): Promise<any> {
+  try {
+    const input = SessionAuthSchema.parse(args);
+
+    logger.info({ sessionId: input.sessionId }, 'Clearing cart');
+
+    const session = await getActiveSession(input.sessionId, input.token);
+    await cartService.clearCart(session);
+
+    return {
+      status: 'success',
+      message: 'Cart cleared successfully',
+    };
+  } catch (error) {
+    logger.error({ error }, 'Clear cart tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definitions
+export const viewCartTool = {
+  name: 'ubereats_view_cart',
+  description: 'View the current cart: restaurant, line items with options, and last known totals',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      refresh: {
+        type: 'boolean',
+        description: 'Re-read the cart from UberEats instead of using the stored copy',
+        default: false,
+      },
+    },
+    required: ['sessionId', 'token'],
+  },
+};
+
+export const updateCartItemTool = {
+  name: 'ubereats_update_cart_item',
+  description: 'Change the quantity or options of an item already in the cart',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      lineId: {
+        type: 'string',
+        description: 'Cart line ID from ubereats_view_cart',
+      },
+      quantity: {
+        type: 'number',
+        description: 'New quantity',
+        minimum: 1,
+      },
+      options: {
+        type: 'object',
+        description: 'Replacement item options',
+        properties: {
+          size: {
+            type: 'string',
+            description: 'Size option',
+          },
+          extras: {
+            type: 'array',
+            description: 'Extra toppings/additions',
+            items: { type: 'string' },
+          },
+          specialInstructions: {
+            type: 'string',
+            description: 'Special instructions for the item',
+          },
+        },
+      },
+    },
+    required: ['sessionId', 'token', 'lineId'],
+  },
+};
+
+export const removeCartItemTool = {
+  name: 'ubereats_remove_cart_item',
+  description: 'Remove an item from the cart',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      lineId: {
+        type: 'string',
+        description: 'Cart line ID from ubereats_view_cart',
+      },
+    },
+    required: ['sessionId', 'token', 'lineId'],
+  },
+};
+
+export const clearCartTool = {
+  name: 'ubereats_clear_cart',
+  description: 'Remove all items from the cart',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+    },
+    required: ['sessionId', 'token'],
+  },
+};
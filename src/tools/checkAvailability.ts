@@ -0,0 +1,75 @@
+/**
+ * Delivery Availability Tool for MCP Server
+ */
+
+import { CheckAvailabilitySchema } from '../types/ubereats.js';
+import { sessionService } from '../services/sessionService.js';
+import { restaurantService } from '../services/restaurantService.js';
+import { SessionStatus } from '../types/session.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError, ValidationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('checkAvailabilityTool');
+
+/**
+ * Check availability handler
+ */
+export async function checkAvailabilityHandler(args: unknown): Promise<any> {
+  try {
+    // Validate input
+    const input = CheckAvailabilitySchema.parse(args);
+
+    // Check the login token, then validate session
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    // Default to the restaurant the cart belongs to
+    const restaurantName = input.restaurantName ?? session.cart?.restaurantName;
+    if (!restaurantName) {
+      throw new ValidationError('Provide restaurantName; the cart is empty');
+    }
+
+    logger.info({ sessionId: session.id, restaurantName }, 'Checking delivery availability');
+
+    const availability = await restaurantService.checkAvailability(session, restaurantName);
+
+    return {
+      status: 'success',
+      message: availability.deliverable
+        ? `${restaurantName} delivers to the current address`
+        : `${restaurantName} cannot deliver to the current address right now`,
+      data: availability,
+    };
+  } catch (error) {
+    logger.error({ error }, 'Check availability tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definition
+export const checkAvailabilityTool = {
+  name: 'ubereats_check_availability',
+  description:
+    'Check whether a restaurant delivers to the session address right now, with open hours, minimum order and ETA',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      restaurantName: {
+        type: 'string',
+        description: 'Restaurant name (defaults to the restaurant in the cart)',
+      },
+    },
+    required: ['sessionId', 'token'],
+  },
+};
@@ -2,15 +2,261 @@
  * Checkout Tool for MCP Server
  */
 
-import { CheckoutSchema } from '../types/ubereats.js';
+import { CheckoutSchema, CheckoutInput } from '../types/ubereats.js';
+import { N8nWebhookResponse } from '../types/n8n.js';
 import { sessionService } from '../services/sessionService.js';
 import { n8nService } from '../services/n8nService.js';
-import { SessionStatus } from '../types/session.js';
+import { orderService } from '../services/orderService.js';
+import { idempotencyService } from '../services/idempotencyService.js';
+import { spendingService } from '../services/spendingService.js';
+import { paymentService } from '../services/paymentService.js';
+import { SessionData, SessionStatus } from '../types/session.js';
 import { createLogger } from '../utils/logger.js';
-import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+import { checkoutConfig } from '../config/environment.js';
+import {
+  handleError,
+  AppError,
+  AuthenticationError,
+  CircuitBreakerError,
+  ValidationError,
+} from '../utils/errorHandler.js';
 
 const logger = createLogger('checkoutTool');
 
+/**
+ * Parse a currency string such as "$23.45" into a number
+ */
+function parseAmount(value?: string): number | undefined {
+  if (!value) return undefined;
+  const amount = Number.parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Ensure a scheduled delivery time falls inside the bookable window
+ */
+function validateScheduleTime(scheduleTime: string): void {
+  const scheduledAt = new Date(scheduleTime).getTime();
+  const earliest = Date.now() + checkoutConfig.scheduleMinLeadMinutes * 60000;
+  const latest = Date.now() + checkoutConfig.scheduleMaxDaysAhead * 24 * 60 * 60000;
+
+  if (scheduledAt < earliest || scheduledAt > latest) {
+    throw new ValidationError(
+      `Scheduled time must be between ${checkoutConfig.scheduleMinLeadMinutes} minutes and ${checkoutConfig.scheduleMaxDaysAhead} days from now`,
+      {
+        scheduleTime: [scheduleTime],
+        earliest: new Date(earliest).toISOString(),
+        latest: new Date(latest).toISOString(),
+      }
+    );
+  }
+}
+
+/**
+ * Compare requested checkout options with what n8n reports as applied.
+ * `applied` is null when n8n did not confirm the option either way.
+ */
+function describeAppliedOptions(
+  input: CheckoutInput,
+  contactlessDelivery: boolean,
+  n8nResponse: N8nWebhookResponse
+) {
+  const applied = n8nResponse.appliedOptions;
+
+  return {
+    promoCode: input.promoCode
+      ? {
+          requested: input.promoCode,
+          applied: applied?.promoCode?.applied ?? null,
+          discount: applied?.promoCode?.discount,
+          message: applied?.promoCode?.message,
+        }
+      : undefined,
+    scheduleTime: input.scheduleTime
+      ? {
+          requested: input.scheduleTime,
+          applied: applied && 'scheduleTime' in applied ? !!applied.scheduleTime : null,
+          scheduledFor: applied?.scheduleTime ?? undefined,
+        }
+      : undefined,
+    contactlessDelivery: {
+      requested: contactlessDelivery,
+      applied: applied?.contactlessDelivery ?? null,
+    },
+  };
+}
+
+interface SpendHold {
+  quotedTotal: number;
+  reservation: string;
+}
+
+/**
+ * Quote the order, enforce the user's spending limits and reserve the quoted total.
+ * Returns undefined when no amount limits apply.
+ */
+async function enforceSpendingLimits(
+  input: CheckoutInput,
+  session: SessionData,
+  sessionData: Record<string, any>
+): Promise<SpendHold | undefined> {
+  if (!spendingService.hasAmountLimits(session.username)) {
+    return undefined;
+  }
+
+  const quote = await n8nService.checkoutPreview(session.id, sessionData, {
+    paymentMethodId: input.paymentMethodId,
+    tipAmount: input.tipAmount,
+    promoCode: input.promoCode,
+  });
+
+  if (quote.status !== 'success' || quote.totals?.total === undefined) {
+    throw new AppError(
+      quote.message || 'Could not determine the order total to check spending limits',
+      502,
+      'SPENDING_CHECK_FAILED'
+    );
+  }
+
+  const reservation = await spendingService.reserveSpend(session.username, {
+    total: quote.totals.total,
+    subtotal: quote.totals.subtotal,
+    tip: input.tipAmount ?? quote.totals.tip,
+  });
+
+  return { quotedTotal: quote.totals.total, reservation };
+}
+
+interface CheckoutHooks {
+  // Called just before the order is sent to n8n
+  onSubmit?: () => void;
+  // Called as soon as n8n confirms the order, before it is recorded locally
+  onPlaced?: (result: any) => Promise<void>;
+}
+
+/**
+ * Call the n8n checkout webhook and record the placed order
+ */
+async function placeOrder(
+  input: CheckoutInput,
+  session: SessionData,
+  contactlessDelivery: boolean,
+  hooks: CheckoutHooks = {}
+): Promise<any> {
+  const sessionData = {
+    cookies: session.cookies,
+    tokens: session.tokens,
+    sessionStorage: session.sessionStorage,
+    localStorage: session.localStorage,
+    storageState: session.storageState,
+  };
+
+  const hold = await enforceSpendingLimits(input, session, sessionData);
+
+  // Call n8n checkout webhook
+  hooks.onSubmit?.();
+  let n8nResponse: N8nWebhookResponse;
+  try {
+    n8nResponse = await n8nService.checkout(session.id, sessionData, {
+      paymentMethodId: input.paymentMethodId,
+      tipAmount: input.tipAmount,
+      promoCode: input.promoCode,
+      scheduleTime: input.scheduleTime,
+      contactlessDelivery,
+    });
+  } catch (error) {
+    // Any other failure may have placed the order, so the reservation keeps counting
+    if (hold && error instanceof CircuitBreakerError) {
+      await spendingService.releaseSpend(session.username, hold.reservation);
+    }
+    throw error;
+  }
+
+  if (n8nResponse.status === 'success') {
+    logger.info(
+      {
+        sessionId: session.id,
+        orderNumber: n8nResponse.orderConfirmationNumber,
+      },
+      'Order placed successfully'
+    );
+
+    const result = {
+      status: 'success',
+      message: 'Order placed successfully',
+      data: {
+        orderConfirmationNumber: n8nResponse.orderConfirmationNumber,
+        estimatedDeliveryTime: n8nResponse.estimatedDeliveryTime,
+        paymentMethod: input.paymentMethodId,
+        tipAmount: input.tipAmount,
+        appliedOptions: describeAppliedOptions(input, contactlessDelivery, n8nResponse),
+        timestamp: new Date().toISOString(),
+      },
+    };
+
+    await hooks.onPlaced?.(result);
+
+    const totalAmount =
+      n8nResponse.totals?.total ?? parseAmount(n8nResponse.cartTotal) ?? hold?.quotedTotal;
+
+    if (hold) {
+      await spendingService.confirmSpend(
+        session.username,
+        hold.reservation,
+        n8nResponse.orderConfirmationNumber,
+        totalAmount ?? hold.quotedTotal
+      );
+    } else if (totalAmount !== undefined) {
+      await spendingService.recordSpend(
+        session.username,
+        n8nResponse.orderConfirmationNumber,
+        totalAmount
+      );
+    }
+
+    // Remember the order on the session and in the user's history
+    if (n8nResponse.orderConfirmationNumber) {
+      await orderService.saveOrder(session.username, {
+        orderNumber: n8nResponse.orderConfirmationNumber,
+        placedAt: new Date(),
+        restaurantName: session.cart?.restaurantName || 'Unknown restaurant',
+        items: session.cart?.items || [],
+        deliveryAddress: session.deliveryAddress,
+        totals: n8nResponse.totals,
+        totalAmount,
+        tipAmount: input.tipAmount,
+        paymentMethodId: input.paymentMethodId,
+        estimatedDeliveryTime: n8nResponse.estimatedDeliveryTime,
+      });
+
+      await sessionService.updateSession(session.id, {
+        orderNumbers: [...(session.orderNumbers || []), n8nResponse.orderConfirmationNumber],
+        cart: null,
+      });
+    }
+
+    return result;
+  } else {
+    logger.warn(
+      {
+        sessionId: session.id,
+        error: n8nResponse.message,
+      },
+      'Checkout failed'
+    );
+
+    if (hold) {
+      await spendingService.releaseSpend(session.username, hold.reservation);
+    }
+
+    return {
+      status: 'error',
+      message: n8nResponse.message || 'Checkout failed',
+      code: 'CHECKOUT_FAILED',
+    };
+  }
+}
+
 /**
  * Checkout handler
  */
@@ -24,66 +270,109 @@ export async function checkoutHandler(args: unknown): Promise<any> {
         sessionId: input.sessionId,
         tipAmount: input.tipAmount,
         hasPaymentMethod: !!input.paymentMethodId,
+        hasPromoCode: !!input.promoCode,
+        scheduleTime: input.scheduleTime,
       },
       'Processing checkout'
     );
 
-    // Get and validate session
-    const session = await sessionService.getSession(input.sessionId);
+    if (input.scheduleTime) {
+      validateScheduleTime(input.scheduleTime);
+    }
+
+    // The tool advertises contactless delivery as the default
+    const contactlessDelivery = input.contactlessDelivery ?? true;
+
+    // Check the login token, then validate session
+    const session = await sessionService.authenticate(input.sessionId, input.token);
 
     if (session.status !== SessionStatus.ACTIVE) {
       throw new AuthenticationError('Session is not active. Please complete login first.');
     }
 
-    // Call n8n checkout webhook
-    const n8nResponse = await n8nService.checkout(
-      session.id,
-      {
-        cookies: session.cookies,
-        tokens: session.tokens,
-        sessionStorage: session.sessionStorage,
-        localStorage: session.localStorage,
-        storageState: session.storageState,
-      },
-      input.paymentMethodId,
-      input.tipAmount
-    );
-
-    if (n8nResponse.status === 'success') {
-      logger.info(
-        {
-          sessionId: session.id,
-          orderNumber: n8nResponse.orderConfirmationNumber,
-        },
-        'Order placed successfully'
+    // Resolve a payment alias (e.g. "corporate-amex") to the real payment method ID
+    if (input.paymentMethodId) {
+      input.paymentMethodId = await paymentService.resolvePaymentMethodId(
+        session,
+        input.paymentMethodId
       );
+    }
 
+    if (!input.idempotencyKey) {
+      return await placeOrder(input, session, contactlessDelivery);
+    }
+
+    // Replay the stored outcome instead of calling n8n again for a retried request
+    const idempotencyKey = input.idempotencyKey;
+    const fingerprint = idempotencyService.fingerprint({
+      paymentMethodId: input.paymentMethodId,
+      tipAmount: input.tipAmount,
+      promoCode: input.promoCode,
+      scheduleTime: input.scheduleTime,
+      contactlessDelivery,
+    });
+    const existing = await idempotencyService.begin(session.username, idempotencyKey, fingerprint);
+
+    if (existing.state === 'completed') {
+      return { ...existing.result, idempotentReplay: true };
+    }
+
+    if (existing.state === 'processing') {
       return {
-        status: 'success',
-        message: 'Order placed successfully',
-        data: {
-          orderConfirmationNumber: n8nResponse.orderConfirmationNumber,
-          estimatedDeliveryTime: n8nResponse.estimatedDeliveryTime,
-          paymentMethod: input.paymentMethodId,
-          tipAmount: input.tipAmount,
-          timestamp: new Date().toISOString(),
-        },
+        status: 'processing',
+        message: 'A checkout with this idempotency key is still processing. Retry shortly.',
+        code: 'CHECKOUT_IN_PROGRESS',
+        startedAt: existing.startedAt,
       };
-    } else {
-      logger.warn(
-        {
-          sessionId: session.id,
-          error: n8nResponse.message,
-        },
-        'Checkout failed'
-      );
+    }
 
+    if (existing.state === 'unknown') {
       return {
         status: 'error',
-        message: n8nResponse.message || 'Checkout failed',
-        code: 'CHECKOUT_FAILED',
+        message:
+          'An earlier checkout with this idempotency key failed after reaching UberEats and may have placed the order. Check ubereats_list_orders before retrying with a new key.',
+        code: 'CHECKOUT_OUTCOME_UNKNOWN',
+        details: { failedAt: existing.failedAt, reason: existing.reason },
       };
     }
+
+    let submitted = false;
+    let completed = false;
+    const complete = async (result: any) => {
+      await idempotencyService.complete(session.username, idempotencyKey, fingerprint, result);
+      completed = true;
+    };
+
+    try {
+      const result = await placeOrder(input, session, contactlessDelivery, {
+        onSubmit: () => {
+          submitted = true;
+        },
+        // Store the outcome before local bookkeeping, so a later failure cannot reopen the key
+        onPlaced: complete,
+      });
+
+      if (!completed) {
+        await complete(result);
+      }
+      return result;
+    } catch (error) {
+      if (!completed) {
+        // Once the request reached n8n the order may exist (timeouts, resets, 5xx), so close
+        // the key for good. Only an open circuit breaker guarantees nothing was sent.
+        if (submitted && !(error instanceof CircuitBreakerError)) {
+          await idempotencyService.markUnknown(
+            session.username,
+            idempotencyKey,
+            fingerprint,
+            error instanceof Error ? error.message : 'Unknown error'
+          );
+        } else {
+          await idempotencyService.release(session.username, idempotencyKey);
+        }
+      }
+      throw error;
+    }
   } catch (error) {
     logger.error({ error }, 'Checkout tool error');
     return handleError(error);
@@ -101,9 +390,13 @@ export const checkoutTool = {
         type: 'string',
         description: 'Session ID from login',
       },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
       paymentMethodId: {
         type: 'string',
-        description: 'ID of saved payment method (optional)',
+        description: 'ID or alias of a saved payment method (optional)',
       },
       tipAmount: {
         type: 'number',
@@ -116,14 +409,22 @@ export const checkoutTool = {
       },
       scheduleTime: {
         type: 'string',
-        description: 'Scheduled delivery time in ISO format (optional)',
+        description:
+          'Scheduled delivery time in ISO format (optional). Must fall within the bookable window (by default 30 minutes to 7 days ahead)',
       },
       contactlessDelivery: {
         type: 'boolean',
         description: 'Request contactless delivery',
         default: true,
       },
+      idempotencyKey: {
+        type: 'string',
+        description:
+          'Unique key for this checkout attempt (optional). Retries with the same key return the original result instead of placing a second order',
+        minLength: 8,
+        maxLength: 128,
+      },
     },
-    required: ['sessionId'],
+    required: ['sessionId', 'token'],
   },
 };
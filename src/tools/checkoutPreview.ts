@@ -0,0 +1,204 @@
+/**
+ * Checkout Preview Tool for MCP Server
+ */
+
+import {
+  CheckoutPreviewSchema,
+  CartTotal,
+  CheckoutPreview,
+  DeliveryAvailability,
+} from '../types/ubereats.js';
+import { sessionService } from '../services/sessionService.js';
+import { n8nService } from '../services/n8nService.js';
+import { restaurantService } from '../services/restaurantService.js';
+import { paymentService } from '../services/paymentService.js';
+import { SessionStatus } from '../types/session.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AppError, AuthenticationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('checkoutPreviewTool');
+
+/**
+ * Round a currency amount to cents
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Build a complete CartTotal, filling gaps n8n left out
+ */
+function toCartTotal(totals: Partial<CartTotal>, tipAmount?: number): CartTotal {
+  const subtotal = totals.subtotal ?? 0;
+  const tax = totals.tax ?? 0;
+  const deliveryFee = totals.deliveryFee ?? 0;
+  const serviceFee = totals.serviceFee ?? 0;
+  const tip = tipAmount ?? totals.tip ?? 0;
+
+  return {
+    subtotal,
+    tax,
+    deliveryFee,
+    serviceFee,
+    tip,
+    total: totals.total ?? roundAmount(subtotal + tax + deliveryFee + serviceFee + tip),
+  };
+}
+
+/**
+ * Checkout preview handler
+ */
+export async function checkoutPreviewHandler(args: unknown): Promise<any> {
+  try {
+    // Validate input
+    const input = CheckoutPreviewSchema.parse(args);
+
+    logger.info(
+      {
+        sessionId: input.sessionId,
+        tipAmount: input.tipAmount,
+        hasPaymentMethod: !!input.paymentMethodId,
+      },
+      'Previewing checkout'
+    );
+
+    // Check the login token, then validate session
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    // Resolve a payment alias (e.g. "corporate-amex") to the real payment method ID
+    if (input.paymentMethodId) {
+      input.paymentMethodId = await paymentService.resolvePaymentMethodId(
+        session,
+        input.paymentMethodId
+      );
+    }
+
+    // Refuse early when the cart's restaurant cannot deliver to the session address
+    let availability: DeliveryAvailability | undefined;
+    if (session.cart && session.deliveryAddress) {
+      try {
+        availability = await restaurantService.checkAvailability(
+          session,
+          session.cart.restaurantName
+        );
+      } catch (error) {
+        // The preview itself still reports problems, so a failed check does not block it
+        if (!(error instanceof AppError) || error.code !== 'CHECK_AVAILABILITY_FAILED') {
+          throw error;
+        }
+        logger.warn({ sessionId: session.id, error: error.message }, 'Availability check failed');
+      }
+
+      if (availability) {
+        restaurantService.assertDeliverable(availability);
+      }
+    }
+
+    // Call n8n checkout preview webhook
+    const n8nResponse = await n8nService.checkoutPreview(
+      session.id,
+      {
+        cookies: session.cookies,
+        tokens: session.tokens,
+        sessionStorage: session.sessionStorage,
+        localStorage: session.localStorage,
+        storageState: session.storageState,
+      },
+      {
+        paymentMethodId: input.paymentMethodId,
+        tipAmount: input.tipAmount,
+        promoCode: input.promoCode,
+      }
+    );
+
+    if (n8nResponse.status !== 'success' || !n8nResponse.totals) {
+      logger.warn(
+        {
+          sessionId: session.id,
+          error: n8nResponse.message,
+        },
+        'Checkout preview failed'
+      );
+
+      return {
+        status: 'error',
+        message: n8nResponse.message || 'Failed to preview checkout',
+        code: 'CHECKOUT_PREVIEW_FAILED',
+      };
+    }
+
+    const totals = toCartTotal(n8nResponse.totals, input.tipAmount);
+
+    if (availability) {
+      // toCartTotal defaults a missing subtotal to 0, so only n8n's own figure is checked
+      restaurantService.assertDeliverable(availability, n8nResponse.totals.subtotal);
+    }
+
+    const preview: CheckoutPreview = {
+      restaurantName: session.cart?.restaurantName,
+      items: n8nResponse.lineItems || session.cart?.items || [],
+      totals,
+      deliveryAddress: n8nResponse.deliveryAddress || session.deliveryAddress,
+      paymentMethod: n8nResponse.paymentMethod,
+      promoCode: input.promoCode,
+      estimatedDeliveryTime:
+        n8nResponse.estimatedDeliveryTime ?? availability?.estimatedDeliveryTime,
+      availability,
+    };
+
+    logger.info(
+      {
+        sessionId: session.id,
+        total: preview.totals.total,
+      },
+      'Checkout preview ready'
+    );
+
+    return {
+      status: 'success',
+      message: 'Checkout preview ready. No order has been placed.',
+      data: preview,
+    };
+  } catch (error) {
+    logger.error({ error }, 'Checkout preview tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definition
+export const checkoutPreviewTool = {
+  name: 'ubereats_checkout_preview',
+  description:
+    'Preview the itemised cost (subtotal, tax, fees, tip, total), delivery address and payment method without placing the order',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      paymentMethodId: {
+        type: 'string',
+        description: 'ID or alias of a saved payment method (optional)',
+      },
+      tipAmount: {
+        type: 'number',
+        description: 'Tip amount in dollars',
+        minimum: 0,
+      },
+      promoCode: {
+        type: 'string',
+        description: 'Promo code to apply (optional)',
+      },
+    },
+    required: ['sessionId', 'token'],
+  },
+};
@@ -0,0 +1,139 @@
+/**
+ * Menu Tools for MCP Server
+ */
+
+import { GetMenuSchema } from '../types/ubereats.js';
+import { sessionService } from '../services/sessionService.js';
+import { restaurantService } from '../services/restaurantService.js';
+import { SessionStatus } from '../types/session.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('getMenuTool');
+
+/**
+ * Get menu handler
+ */
+export async function getMenuHandler(args: unknown): Promise<any> {
+  try {
+    // Validate input
+    const input = GetMenuSchema.parse(args);
+
+    logger.info(
+      {
+        sessionId: input.sessionId,
+        restaurantName: input.restaurantName,
+        refresh: input.refresh,
+      },
+      'Getting menu'
+    );
+
+    // Check the login token, then validate session
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const { menu, cached } = await restaurantService.getMenu(session, input.restaurantName, {
+      refresh: input.refresh,
+    });
+
+    const itemCount = menu.categories.reduce((count, c) => count + c.items.length, 0);
+
+    return {
+      status: 'success',
+      message: `Menu for ${menu.restaurantName}: ${itemCount} item(s) in ${menu.categories.length} categories`,
+      data: {
+        ...menu,
+        cached,
+      },
+    };
+  } catch (error) {
+    logger.error({ error }, 'Get menu tool error');
+    return handleError(error);
+  }
+}
+
+/**
+ * Invalidate menu handler
+ */
+export async function invalidateMenuHandler(args: unknown): Promise<any> {
+  try {
+    const input = GetMenuSchema.pick({ sessionId: true, token: true, restaurantName: true }).parse(
+      args
+    );
+
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const removed = await restaurantService.invalidateMenu(input.restaurantName);
+
+    return {
+      status: 'success',
+      message: removed
+        ? `Cached menu for ${input.restaurantName} cleared`
+        : `No cached menu for ${input.restaurantName}`,
+      data: { restaurantName: input.restaurantName, removed },
+    };
+  } catch (error) {
+    logger.error({ error }, 'Invalidate menu tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definitions
+export const getMenuTool = {
+  name: 'ubereats_get_menu',
+  description:
+    'Get a restaurant menu (categories, items, prices and modifier groups). Use exact item names from it in ubereats_add_items. Menus are cached',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      restaurantName: {
+        type: 'string',
+        description: 'Restaurant name, e.g. from ubereats_search_restaurants',
+      },
+      refresh: {
+        type: 'boolean',
+        description: 'Ignore the cached copy and fetch the menu again',
+        default: false,
+      },
+    },
+    required: ['sessionId', 'token', 'restaurantName'],
+  },
+};
+
+export const invalidateMenuTool = {
+  name: 'ubereats_invalidate_menu',
+  description: 'Clear the cached menu for a restaurant so the next lookup fetches it again',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      restaurantName: {
+        type: 'string',
+        description: 'Restaurant name',
+      },
+    },
+    required: ['sessionId', 'token', 'restaurantName'],
+  },
+};
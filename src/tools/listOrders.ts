@@ -0,0 +1,102 @@
+/**
+ * List Orders Tool for MCP Server
+ */
+
+import { ListOrdersSchema } from '../types/ubereats.js';
+import { SessionStatus } from '../types/session.js';
+import { sessionService } from '../services/sessionService.js';
+import { orderService } from '../services/orderService.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('listOrdersTool');
+
+/**
+ * List order history handler
+ */
+export async function listOrdersHandler(args: unknown): Promise<any> {
+  try {
+    // Validate input
+    const input = ListOrdersSchema.parse(args);
+
+    logger.info(
+      {
+        sessionId: input.sessionId,
+        page: input.page,
+        pageSize: input.pageSize,
+      },
+      'Listing order history'
+    );
+
+    // Check the login token, then validate session
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const { orders, total } = await orderService.listOrders(session.username, {
+      offset: (input.page - 1) * input.pageSize,
+      limit: input.pageSize,
+      from: input.from ? new Date(input.from) : undefined,
+      to: input.to ? new Date(input.to) : undefined,
+    });
+
+    return {
+      status: 'success',
+      message: `Found ${total} order(s)`,
+      data: {
+        orders,
+        page: input.page,
+        pageSize: input.pageSize,
+        total,
+        totalPages: Math.ceil(total / input.pageSize),
+      },
+    };
+  } catch (error) {
+    logger.error({ error }, 'List orders tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definition
+export const listOrdersTool = {
+  name: 'ubereats_list_orders',
+  description:
+    'List past UberEats orders for the logged-in user, newest first, optionally within a date range',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      page: {
+        type: 'number',
+        description: 'Page number (starts at 1)',
+        minimum: 1,
+        default: 1,
+      },
+      pageSize: {
+        type: 'number',
+        description: 'Orders per page',
+        minimum: 1,
+        maximum: 50,
+        default: 10,
+      },
+      from: {
+        type: 'string',
+        description: 'Only orders placed at or after this ISO date-time (optional)',
+      },
+      to: {
+        type: 'string',
+        description: 'Only orders placed at or before this ISO date-time (optional)',
+      },
+    },
+    required: ['sessionId', 'token'],
+  },
+};
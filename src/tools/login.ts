@@ -5,9 +5,11 @@
 import { z } from 'zod';
 import { sessionService } from '../services/sessionService.js';
 import { n8nService } from '../services/n8nService.js';
+import { tokenService } from '../services/tokenService.js';
 import { SessionStatus } from '../types/session.js';
+import { sessionConfig } from '../config/environment.js';
 import { createLogger } from '../utils/logger.js';
-import { handleError } from '../utils/errorHandler.js';
+import { handleError, AuthenticationError } from '../utils/errorHandler.js';
 
 const logger = createLogger('loginTool');
 
@@ -66,7 +68,7 @@ export async function loginHandler(args: unknown): Promise<any> {
         });
 
         // Generate JWT token
-        const token = sessionService.generateToken(session.id, input.username);
+        const token = sessionService.generateToken(session.id, input.username, session.expiresAt);
 
         logger.info({ sessionId: session.id, username: input.username }, 'Login successful');
 
@@ -120,6 +122,7 @@ export async function loginHandler(args: unknown): Promise<any> {
  */
 const CompleteLoginInputSchema = z.object({
   sessionId: z.string().uuid('Invalid session ID'),
+  token: z.string().min(1).optional(),
 });
 
 export async function completeLoginHandler(args: unknown): Promise<any> {
@@ -134,21 +137,29 @@ export async function completeLoginHandler(args: unknown): Promise<any> {
     // If session is already active with login data, return success immediately
     if (session.status === SessionStatus.ACTIVE && session.loginCompletedAt) {
       logger.info({ sessionId: input.sessionId }, 'Session already active with login completed');
-      
-      // Generate fresh token
-      const token = sessionService.generateToken(session.id, session.username);
-      
+
+      // The token was issued when login completed; never hand out another one for a bare sessionId
+      if (!input.token) {
+        throw new AuthenticationError(
+          'Session is already logged in. Use the token issued at login.'
+        );
+      }
+
+      await sessionService.authenticate(session.id, input.token);
+
       return {
         status: 'success',
         message: 'Session already logged in',
         sessionId: session.id,
-        token,
         expiresAt: session.expiresAt,
       };
     }
 
     // Check if session is in a valid state for login completion
-    if (session.status !== SessionStatus.MANUAL_LOGIN_PENDING && session.status !== SessionStatus.ACTIVE) {
+    if (
+      session.status !== SessionStatus.MANUAL_LOGIN_PENDING &&
+      session.status !== SessionStatus.ACTIVE
+    ) {
       return {
         status: 'error',
         message: 'Session is not in a valid state for login completion',
@@ -172,7 +183,7 @@ export async function completeLoginHandler(args: unknown): Promise<any> {
       });
 
       // Generate JWT token
-      const token = sessionService.generateToken(session.id, session.username);
+      const token = sessionService.generateToken(session.id, session.username, session.expiresAt);
 
       logger.info({ sessionId: session.id }, 'Login completed successfully');
 
@@ -209,6 +220,7 @@ export async function completeLoginHandler(args: unknown): Promise<any> {
  */
 const LogoutInputSchema = z.object({
   sessionId: z.string().uuid('Invalid session ID'),
+  token: z.string().min(1, 'Token from login is required'),
 });
 
 export async function logoutHandler(args: unknown): Promise<any> {
@@ -217,6 +229,12 @@ export async function logoutHandler(args: unknown): Promise<any> {
 
     logger.info({ sessionId: input.sessionId }, 'Logout attempt');
 
+    // Only the holder of the session's token may end it
+    await sessionService.authenticate(input.sessionId, input.token);
+
+    // Deleting the session does not expire the JWT, so deny it explicitly
+    await tokenService.revokeToken(input.token, 'logout');
+
     // Delete session
     await sessionService.deleteSession(input.sessionId);
 
@@ -232,6 +250,46 @@ export async function logoutHandler(args: unknown): Promise<any> {
   }
 }
 
+/**
+ * Extend session tool handler
+ */
+const ExtendSessionInputSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: z.string().min(1, 'Token from login is required'),
+  minutes: z
+    .number()
+    .int()
+    .positive('Minutes must be positive')
+    .default(sessionConfig.lifetimeMinutes),
+});
+
+export async function extendSessionHandler(args: unknown): Promise<any> {
+  try {
+    const input = ExtendSessionInputSchema.parse(args);
+
+    logger.info({ sessionId: input.sessionId, minutes: input.minutes }, 'Extending session');
+
+    await sessionService.authenticate(input.sessionId, input.token);
+
+    const session = await sessionService.extendSession(input.sessionId, input.minutes);
+
+    // The old token still expires at the old expiry, so issue one matching the session
+    const token = sessionService.generateToken(session.id, session.username, session.expiresAt);
+
+    return {
+      status: 'success',
+      message: `Session extended until ${new Date(session.expiresAt).toISOString()}`,
+      sessionId: session.id,
+      token,
+      expiresAt: session.expiresAt,
+      maxExpiresAt: sessionService.getMaxExpiresAt(session),
+    };
+  } catch (error) {
+    logger.error({ error }, 'Extend session tool error');
+    return handleError(error);
+  }
+}
+
 // Export tool definitions
 export const loginTool = {
   name: 'ubereats_login',
@@ -274,6 +332,10 @@ export const completeLoginTool = {
         type: 'string',
         description: 'Session ID from login',
       },
+      token: {
+        type: 'string',
+        description: 'Token from login, required when the session is already logged in',
+      },
     },
     required: ['sessionId'],
   },
@@ -289,7 +351,36 @@ export const logoutTool = {
         type: 'string',
         description: 'Session ID to logout',
       },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
     },
-    required: ['sessionId'],
+    required: ['sessionId', 'token'],
+  },
+};
+
+export const extendSessionTool = {
+  name: 'ubereats_extend_session',
+  description:
+    'Extend the session expiry (up to the maximum session lifetime) and get a new token valid until then',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      minutes: {
+        type: 'number',
+        description: 'Minutes to add to the current expiry (defaults to the session lifetime)',
+        minimum: 1,
+      },
+    },
+    required: ['sessionId', 'token'],
   },
 };
@@ -0,0 +1,68 @@
+/**
+ * Order Status Tool for MCP Server
+ */
+
+import { OrderStatusSchema } from '../types/ubereats.js';
+import { orderService } from '../services/orderService.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError } from '../utils/errorHandler.js';
+
+const logger = createLogger('orderStatusTool');
+
+/**
+ * Order status handler
+ */
+export async function orderStatusHandler(args: unknown): Promise<any> {
+  try {
+    // Validate input
+    const input = OrderStatusSchema.parse(args);
+
+    logger.info(
+      {
+        sessionId: input.sessionId,
+        orderNumber: input.orderNumber,
+      },
+      'Checking order status'
+    );
+
+    const orderStatus = await orderService.getOrderStatus(
+      input.sessionId,
+      input.token,
+      input.orderNumber
+    );
+
+    return {
+      status: 'success',
+      message: 'Order status retrieved successfully',
+      data: orderStatus,
+    };
+  } catch (error) {
+    logger.error({ error }, 'Order status tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definition
+export const orderStatusTool = {
+  name: 'ubereats_order_status',
+  description:
+    'Get live status of a placed UberEats order: stage, ETA, courier details and last update time',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      orderNumber: {
+        type: 'string',
+        description: 'Order confirmation number returned by checkout',
+      },
+    },
+    required: ['sessionId', 'token', 'orderNumber'],
+  },
+};
@@ -0,0 +1,169 @@
+/**
+ * Payment Method Tools for MCP Server
+ */
+
+import { SetPaymentAliasSchema, DeletePaymentAliasSchema } from '../types/ubereats.js';
+import { SessionAuthSchema, SessionStatus } from '../types/session.js';
+import { sessionService } from '../services/sessionService.js';
+import { paymentService } from '../services/paymentService.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('paymentMethodsTool');
+
+/**
+ * List payment methods handler
+ */
+export async function listPaymentMethodsHandler(args: unknown): Promise<any> {
+  try {
+    const input = SessionAuthSchema.parse(args);
+
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const paymentMethods = await paymentService.listPaymentMethods(session);
+
+    return {
+      status: 'success',
+      message: `Found ${paymentMethods.length} payment method(s)`,
+      data: {
+        paymentMethods,
+      },
+    };
+  } catch (error) {
+    logger.error({ error }, 'List payment methods tool error');
+    return handleError(error);
+  }
+}
+
+/**
+ * Set payment alias handler
+ */
+export async function setPaymentAliasHandler(args: unknown): Promise<any> {
+  try {
+    const input = SetPaymentAliasSchema.parse(args);
+
+    logger.info({ sessionId: input.sessionId, alias: input.alias }, 'Setting payment alias');
+
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    // The payment method is checked against the live account, which needs a logged-in session
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const alias = await paymentService.setAlias(session, input.alias, input.paymentMethodId);
+
+    return {
+      status: 'success',
+      message: `Payment alias "${alias.alias}" now points to ${alias.display || alias.paymentMethodId}`,
+      data: alias,
+    };
+  } catch (error) {
+    logger.error({ error }, 'Set payment alias tool error');
+    return handleError(error);
+  }
+}
+
+/**
+ * Delete payment alias handler
+ */
+export async function deletePaymentAliasHandler(args: unknown): Promise<any> {
+  try {
+    const input = DeletePaymentAliasSchema.parse(args);
+
+    logger.info({ sessionId: input.sessionId, alias: input.alias }, 'Deleting payment alias');
+
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    await paymentService.deleteAlias(session.username, input.alias);
+
+    return {
+      status: 'success',
+      message: `Payment alias "${input.alias}" deleted`,
+    };
+  } catch (error) {
+    logger.error({ error }, 'Delete payment alias tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definitions
+export const listPaymentMethodsTool = {
+  name: 'ubereats_list_payment_methods',
+  description:
+    'List the payment methods on the UberEats account with masked card details, default status and aliases',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+    },
+    required: ['sessionId', 'token'],
+  },
+};
+
+export const setPaymentAliasTool = {
+  name: 'ubereats_set_payment_alias',
+  description:
+    'Give a payment method a memorable alias (e.g. "corporate-amex") usable as paymentMethodId at checkout',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      alias: {
+        type: 'string',
+        description: 'Alias for the payment method (case-insensitive)',
+        maxLength: 50,
+      },
+      paymentMethodId: {
+        type: 'string',
+        description: 'Payment method ID from ubereats_list_payment_methods',
+      },
+    },
+    required: ['sessionId', 'token', 'alias', 'paymentMethodId'],
+  },
+};
+
+export const deletePaymentAliasTool = {
+  name: 'ubereats_delete_payment_alias',
+  description: 'Delete a payment method alias',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      alias: {
+        type: 'string',
+        description: 'Alias to delete',
+      },
+    },
+    required: ['sessionId', 'token', 'alias'],
+  },
+};
@@ -0,0 +1,80 @@
+/**
+ * Reorder Tool for MCP Server
+ */
+
+import { ReorderSchema } from '../types/ubereats.js';
+import { orderService } from '../services/orderService.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError } from '../utils/errorHandler.js';
+
+const logger = createLogger('reorderTool');
+
+/**
+ * Reorder handler
+ */
+export async function reorderHandler(args: unknown): Promise<any> {
+  try {
+    // Validate input
+    const input = ReorderSchema.parse(args);
+
+    logger.info(
+      {
+        sessionId: input.sessionId,
+        orderNumber: input.orderNumber || 'latest',
+      },
+      'Building reorder plan'
+    );
+
+    const plan = await orderService.buildReorderPlan(
+      input.sessionId,
+      input.token,
+      input.orderNumber
+    );
+
+    if (!plan.addItems) {
+      return {
+        status: 'error',
+        message: `None of the items from order ${plan.sourceOrder.orderNumber} could be matched`,
+        code: 'REORDER_NO_ITEMS',
+        details: { unmatchedItems: plan.unmatchedItems },
+      };
+    }
+
+    return {
+      status: 'success',
+      message:
+        plan.unmatchedItems.length > 0
+          ? `Reorder plan ready; ${plan.unmatchedItems.length} item(s) could not be matched`
+          : 'Reorder plan ready',
+      data: plan,
+    };
+  } catch (error) {
+    logger.error({ error }, 'Reorder tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definition
+export const reorderTool = {
+  name: 'ubereats_reorder',
+  description:
+    'Load a past order (by number, or the latest) and return a plan of set_address, add_items and checkout calls; add the token from login to each call. Does not place the order.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      orderNumber: {
+        type: 'string',
+        description: 'Previous order number (optional, defaults to the latest order)',
+      },
+    },
+    required: ['sessionId', 'token'],
+  },
+};
@@ -0,0 +1,109 @@
+/**
+ * Restaurant Search Tool for MCP Server
+ */
+
+import { SearchRestaurantsSchema } from '../types/ubereats.js';
+import { sessionService } from '../services/sessionService.js';
+import { restaurantService } from '../services/restaurantService.js';
+import { SessionStatus } from '../types/session.js';
+import { createLogger } from '../utils/logger.js';
+import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+
+const logger = createLogger('searchRestaurantsTool');
+
+/**
+ * Search restaurants handler
+ */
+export async function searchRestaurantsHandler(args: unknown): Promise<any> {
+  try {
+    // Validate input
+    const input = SearchRestaurantsSchema.parse(args);
+
+    logger.info(
+      {
+        sessionId: input.sessionId,
+        query: input.query,
+        cuisine: input.cuisine,
+      },
+      'Searching restaurants'
+    );
+
+    // Check the login token, then validate session
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const restaurants = await restaurantService.search(session, input);
+
+    return {
+      status: 'success',
+      message:
+        restaurants.length > 0
+          ? `Found ${restaurants.length} restaurant(s) for "${input.query}"`
+          : `No restaurants found for "${input.query}"`,
+      data: {
+        query: input.query,
+        deliveryAddress: session.deliveryAddress,
+        restaurants,
+      },
+    };
+  } catch (error) {
+    logger.error({ error }, 'Search restaurants tool error');
+    return handleError(error);
+  }
+}
+
+// Export tool definition
+export const searchRestaurantsTool = {
+  name: 'ubereats_search_restaurants',
+  description:
+    'Search restaurants delivering to the session address. Use the returned name as restaurantName in ubereats_add_items',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Session ID from login',
+      },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
+      query: {
+        type: 'string',
+        description: 'Restaurant name, dish or keyword to search for',
+      },
+      cuisine: {
+        type: 'string',
+        description: 'Cuisine filter, e.g. "thai" (optional)',
+      },
+      maxPriceTier: {
+        type: 'number',
+        description: 'Highest price tier to include, 1 ($) to 4 ($$$$)',
+        minimum: 1,
+        maximum: 4,
+      },
+      minRating: {
+        type: 'number',
+        description: 'Minimum customer rating (0-5)',
+        minimum: 0,
+        maximum: 5,
+      },
+      maxDeliveryFee: {
+        type: 'number',
+        description: 'Maximum delivery fee in dollars',
+        minimum: 0,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of results',
+        minimum: 1,
+        maximum: 50,
+        default: 20,
+      },
+    },
+    required: ['sessionId', 'token', 'query'],
+  },
+};
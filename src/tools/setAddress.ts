@@ -2,39 +2,73 @@
  * Set Address Tool for MCP Server
  */
 
-import { DeliveryAddressSchema } from '../types/ubereats.js';
+import { DeliveryAddress, SetAddressInput, SetAddressSchema } from '../types/ubereats.js';
 import { sessionService } from '../services/sessionService.js';
 import { n8nService } from '../services/n8nService.js';
+import { addressBookService } from '../services/addressBookService.js';
+import { geocoderService } from '../services/geocoderService.js';
 import { SessionStatus } from '../types/session.js';
 import { createLogger } from '../utils/logger.js';
-import { handleError, AuthenticationError } from '../utils/errorHandler.js';
+import { handleError, AuthenticationError, ValidationError } from '../utils/errorHandler.js';
 
 const logger = createLogger('setAddressTool');
 
+/**
+ * Resolve the address to set: given in full, by saved label, or the last one used
+ */
+async function resolveAddress(
+  username: string,
+  input: SetAddressInput
+): Promise<{ address: DeliveryAddress; label?: string }> {
+  if (input.address) {
+    return { address: input.address };
+  }
+
+  if (input.addressLabel) {
+    const saved = await addressBookService.getAddress(username, input.addressLabel);
+    return { address: saved.address, label: saved.label };
+  }
+
+  const lastUsed = await addressBookService.getLastUsed(username);
+  if (!lastUsed) {
+    throw new ValidationError('Provide an address or addressLabel; no previous address is known');
+  }
+
+  return { address: lastUsed.address, label: lastUsed.label };
+}
+
 /**
  * Set delivery address handler
  */
 export async function setAddressHandler(args: unknown): Promise<any> {
   try {
     // Validate input
-    const input = DeliveryAddressSchema.parse(args);
+    const input = SetAddressSchema.parse(args);
+
+    // Check the login token, then validate session
+    const session = await sessionService.authenticate(input.sessionId, input.token);
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      throw new AuthenticationError('Session is not active. Please complete login first.');
+    }
+
+    const resolved = await resolveAddress(session.username, input);
+    const label = resolved.label;
+
+    // Normalise and fill in coordinates before the address reaches n8n
+    const { address, geocoded, provider } = await geocoderService.resolve(resolved.address);
 
     logger.info(
       {
         sessionId: input.sessionId,
-        city: input.address.city,
-        state: input.address.state,
+        addressLabel: label,
+        geocoded,
+        city: address.city,
+        state: address.state,
       },
       'Setting delivery address'
     );
 
-    // Get and validate session
-    const session = await sessionService.getSession(input.sessionId);
-
-    if (session.status !== SessionStatus.ACTIVE) {
-      throw new AuthenticationError('Session is not active. Please complete login first.');
-    }
-
     // Call n8n set address webhook
     const n8nResponse = await n8nService.setDeliveryAddress(
       session.id,
@@ -45,7 +79,7 @@ export async function setAddressHandler(args: unknown): Promise<any> {
         localStorage: session.localStorage,
         storageState: session.storageState,
       },
-      input.address
+      address
     );
 
     if (n8nResponse.status === 'success') {
@@ -56,11 +90,18 @@ export async function setAddressHandler(args: unknown): Promise<any> {
         'Delivery address set successfully'
       );
 
+      await sessionService.updateSession(session.id, { deliveryAddress: address });
+      await addressBookService.rememberLastUsed(session.username, address, label);
+
       return {
         status: 'success',
-        message: 'Delivery address set successfully',
+        message: label
+          ? `Delivery address set to saved address "${label}"`
+          : 'Delivery address set successfully',
         data: {
-          address: input.address,
+          address,
+          addressLabel: label,
+          geocoding: { provider, geocoded },
           timestamp: new Date().toISOString(),
         },
       };
@@ -88,7 +129,8 @@ export async function setAddressHandler(args: unknown): Promise<any> {
 // Export tool definition
 export const setAddressTool = {
   name: 'ubereats_set_address',
-  description: 'Set delivery address for UberEats order',
+  description:
+    'Set delivery address for UberEats order, given in full or by saved address label. With neither, the last used address is set again',
   inputSchema: {
     type: 'object',
     properties: {
@@ -96,6 +138,10 @@ export const setAddressTool = {
         type: 'string',
         description: 'Session ID from login',
       },
+      token: {
+        type: 'string',
+        description: 'Token from login',
+      },
       address: {
         type: 'object',
         description: 'Delivery address details',
@@ -110,14 +156,17 @@ export const setAddressTool = {
           },
           state: {
             type: 'string',
-            description: 'State (2-letter code)',
-            minLength: 2,
-            maxLength: 2,
+            description:
+              'State (2-letter code in the US, e.g. NSW in AU, province code in CA; optional county in the UK)',
           },
           zipCode: {
             type: 'string',
-            description: 'ZIP code',
-            pattern: '^\\d{5}(-\\d{4})?$',
+            description: 'ZIP code or postcode in the format of the country',
+          },
+          country: {
+            type: 'string',
+            description: 'Country code: US (default), AU, CA or GB/UK',
+            enum: ['US', 'AU', 'CA', 'GB', 'UK'],
           },
           aptSuite: {
             type: 'string',
@@ -141,9 +190,14 @@ export const setAddressTool = {
             maximum: 180,
           },
         },
-        required: ['street', 'city', 'state', 'zipCode'],
+        required: ['street', 'city', 'zipCode'],
+      },
+      addressLabel: {
+        type: 'string',
+        description:
+          'Label of a saved address, used instead of address (see ubereats_save_address)',
       },
     },
-    required: ['sessionId', 'address'],
+    required: ['sessionId', 'token'],
   },
 };
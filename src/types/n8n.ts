@@ -2,6 +2,15 @@
  * n8n Integration Types
  */
 
+import {
+  CartTotal,
+  DeliveryAddress,
+  MenuCategory,
+  OrderItem,
+  PaymentMethod,
+  Restaurant,
+} from './ubereats.js';
+
 export interface N8nWebhookPayload {
   sessionId: string;
   sessionData?: any;
@@ -23,11 +32,82 @@ export interface N8nWebhookResponse {
   localStorage?: Record<string, any>;
   storageState?: any; // Complete Playwright storage state
   cartTotal?: string;
+  totals?: Partial<CartTotal>;
+  lineItems?: OrderItem[];
+  cart?: {
+    restaurantName?: string;
+    items?: OrderItem[];
+    totals?: Partial<CartTotal>;
+    cartTotal?: string;
+  };
+  deliveryAddress?: DeliveryAddress;
+  paymentMethod?: PaymentMethod;
+  paymentMethods?: PaymentMethod[];
   orderConfirmationNumber?: string;
   estimatedDeliveryTime?: string;
+  orderStatus?: {
+    stage?: string;
+    statusText?: string;
+    estimatedDeliveryTime?: string;
+    courier?: {
+      name?: string;
+      phone?: string;
+      vehicle?: string;
+      latitude?: number;
+      longitude?: number;
+    };
+    trackingUrl?: string;
+    updatedAt?: string;
+  };
+  appliedOptions?: {
+    promoCode?: {
+      applied: boolean;
+      discount?: number;
+      message?: string;
+    };
+    scheduleTime?: string | null;
+    contactlessDelivery?: boolean;
+  };
+  cancellation?: {
+    outcome?: 'cancelled' | 'too_late' | 'partial_refund';
+    refundAmount?: number;
+    chargedAmount?: number;
+  };
+  restaurants?: Restaurant[];
+  availability?: {
+    deliverable?: boolean;
+    isOpen?: boolean;
+    reason?: string;
+    openHours?: unknown;
+    nextOpenTime?: string;
+    minimumOrder?: number | string;
+    estimatedDeliveryTime?: string;
+    deliveryFee?: number | string;
+  };
+  menu?: {
+    restaurantName?: string;
+    categories?: MenuCategory[];
+  };
   instructions?: string[];
 }
 
+export interface N8nCheckoutOptions {
+  paymentMethodId?: string;
+  tipAmount?: number;
+  promoCode?: string;
+  scheduleTime?: string;
+  contactlessDelivery?: boolean;
+}
+
+export interface N8nRestaurantSearch {
+  query: string;
+  cuisine?: string;
+  maxPriceTier?: number;
+  minRating?: number;
+  maxDeliveryFee?: number;
+  limit?: number;
+}
+
 export enum N8nWebhookEndpoint {
   LOGIN = 'ubereats-login',
   LOGIN_STATUS = 'ubereats-login-status',
@@ -36,6 +116,15 @@ export enum N8nWebhookEndpoint {
   CHECKOUT = 'ubereats-checkout',
   ORDER_STATUS = 'ubereats-order-status',
   CANCEL_ORDER = 'ubereats-cancel-order',
+  CHECKOUT_PREVIEW = 'ubereats-checkout-preview',
+  VIEW_CART = 'ubereats-view-cart',
+  UPDATE_CART_ITEM = 'ubereats-update-cart-item',
+  REMOVE_CART_ITEM = 'ubereats-remove-cart-item',
+  CLEAR_CART = 'ubereats-clear-cart',
+  SEARCH_RESTAURANTS = 'ubereats-search-restaurants',
+  GET_MENU = 'ubereats-get-menu',
+  CHECK_AVAILABILITY = 'ubereats-check-availability',
+  LIST_PAYMENT_METHODS = 'ubereats-list-payment-methods',
 }
 
 export interface N8nServiceConfig {
@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { Cart, DeliveryAddress } from './ubereats.js';
 
 export enum SessionStatus {
   ACTIVE = 'active',
@@ -28,6 +29,9 @@ export interface SessionData {
   sessionStorage: Record<string, any>;
   localStorage: Record<string, any>;
   storageState?: any; // Complete Playwright storage state
+  orderNumbers?: string[]; // Orders placed in this session
+  cart?: Cart;
+  deliveryAddress?: DeliveryAddress;
   metadata?: {
     userAgent?: string;
     ipAddress?: string;
@@ -50,6 +54,9 @@ export interface SessionUpdateOptions {
   localStorage?: Record<string, any>;
   storageState?: any;
   loginCompletedAt?: Date;
+  orderNumbers?: string[];
+  cart?: Cart | null; // null clears the cart
+  deliveryAddress?: DeliveryAddress;
 }
 
 // Zod schemas for validation
@@ -69,5 +76,11 @@ export const SessionIdSchema = z.object({
   sessionId: z.string().uuid('Invalid session ID format'),
 });
 
+// Session ID plus the JWT issued by login, for reads and writes on the user's account
+export const SessionAuthSchema = SessionIdSchema.extend({
+  token: z.string().min(1, 'Token from login is required'),
+});
+
 export type SessionCreateInput = z.infer<typeof SessionCreateSchema>;
 export type SessionIdInput = z.infer<typeof SessionIdSchema>;
+export type SessionAuthInput = z.infer<typeof SessionAuthSchema>;
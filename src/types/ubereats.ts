@@ -14,6 +14,12 @@ export interface OrderItem {
     extras?: string[];
     specialInstructions?: string;
   };
+  modifiers?: SelectedModifier[];
+}
+
+export interface SelectedModifier {
+  group: string;
+  selections: string[];
 }
 
 export interface CartTotal {
@@ -25,28 +31,224 @@ export interface CartTotal {
   total: number;
 }
 
+export interface CheckoutPreview {
+  restaurantName?: string;
+  items: OrderItem[];
+  totals: CartTotal;
+  deliveryAddress?: DeliveryAddress;
+  paymentMethod?: PaymentMethod;
+  promoCode?: string;
+  estimatedDeliveryTime?: string;
+  availability?: DeliveryAvailability;
+}
+
+// Payment types
+export interface PaymentMethod {
+  id: string;
+  type: string;
+  brand?: string;
+  last4?: string;
+  expiry?: string;
+  isDefault?: boolean;
+  display?: string; // Masked label, e.g. "Amex •••• 1001"
+  aliases?: string[];
+}
+
+export interface PaymentAlias {
+  alias: string;
+  paymentMethodId: string;
+  display?: string;
+  createdAt: string;
+}
+
 // Address types
+export type AddressCountry = 'US' | 'AU' | 'CA' | 'GB';
+
 export interface DeliveryAddress {
   street: string;
   city: string;
-  state: string;
-  zipCode: string;
+  state?: string; // State, province or county depending on country
+  zipCode: string; // ZIP code or postcode depending on country
+  country?: AddressCountry; // Defaults to US
   aptSuite?: string;
   deliveryInstructions?: string;
   latitude?: number;
   longitude?: number;
 }
 
+export interface SavedAddress {
+  label: string;
+  address: DeliveryAddress;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LastUsedAddress {
+  label?: string;
+  address: DeliveryAddress;
+  usedAt: string;
+}
+
+// Restaurant types
+export interface Restaurant {
+  id?: string;
+  name: string;
+  cuisines?: string[];
+  priceTier?: number; // 1 ($) to 4 ($$$$)
+  rating?: number;
+  ratingCount?: number;
+  deliveryFee?: number;
+  estimatedDeliveryTime?: string;
+  isOpen?: boolean;
+  url?: string;
+}
+
+// Menu types
+export interface ModifierOption {
+  name: string;
+  price?: number;
+  available?: boolean;
+}
+
+export interface ModifierGroup {
+  name: string;
+  required?: boolean;
+  minSelections?: number;
+  maxSelections?: number;
+  options: ModifierOption[];
+}
+
+export interface MenuItem {
+  id?: string;
+  name: string;
+  description?: string;
+  price?: number;
+  available?: boolean;
+  modifierGroups?: ModifierGroup[];
+}
+
+export interface MenuCategory {
+  name: string;
+  items: MenuItem[];
+}
+
+export interface Menu {
+  restaurantName: string;
+  categories: MenuCategory[];
+  fetchedAt: string;
+}
+
+export interface MenuValidationIssue {
+  itemIndex: number;
+  field: 'name' | 'size' | 'extras' | 'modifiers';
+  value: string;
+  message: string;
+  suggestions: string[];
+  group?: string;
+}
+
+// Availability types
+export interface OpeningHours {
+  day: string;
+  open: string;
+  close: string;
+}
+
+export interface DeliveryAvailability {
+  restaurantName: string;
+  deliverable: boolean;
+  unavailableReason?: 'closed' | 'out_of_delivery_area' | 'other';
+  message?: string;
+  isOpen?: boolean;
+  openHours?: OpeningHours[];
+  nextOpenTime?: string;
+  minimumOrder?: number;
+  estimatedDeliveryTime?: string;
+  deliveryFee?: number;
+  checkedAt: string;
+}
+
+// Cart types
+export interface CartItem extends OrderItem {
+  lineId: string;
+}
+
+export interface Cart {
+  restaurantName: string;
+  items: CartItem[];
+  cartTotal?: string;
+  totals?: Partial<CartTotal>;
+  updatedAt: Date;
+}
+
 // Order types
 export interface OrderConfirmation {
   orderNumber: string;
-  estimatedDeliveryTime: Date;
+  estimatedDeliveryTime?: string;
   trackingUrl?: string;
-  totalAmount: number;
+  totalAmount?: number;
   restaurantName: string;
   items: OrderItem[];
 }
 
+export interface OrderHistoryRecord extends OrderConfirmation {
+  placedAt: Date;
+  deliveryAddress?: DeliveryAddress;
+  totals?: Partial<CartTotal>;
+  tipAmount?: number;
+  paymentMethodId?: string;
+}
+
+export enum OrderStage {
+  PLACED = 'placed',
+  CONFIRMED = 'confirmed',
+  PREPARING = 'preparing',
+  READY_FOR_PICKUP = 'ready_for_pickup',
+  PICKED_UP = 'picked_up',
+  ARRIVING = 'arriving',
+  DELIVERED = 'delivered',
+  CANCELLED = 'cancelled',
+  UNKNOWN = 'unknown',
+}
+
+export interface CourierInfo {
+  name?: string;
+  phone?: string;
+  vehicle?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface OrderStatus {
+  orderNumber: string;
+  stage: OrderStage;
+  statusText?: string;
+  estimatedDeliveryTime?: string;
+  courier?: CourierInfo;
+  trackingUrl?: string;
+  lastUpdated: string;
+}
+
+export interface UnmatchedReorderItem {
+  item: OrderItem;
+  reason: string;
+}
+
+export interface ReorderPlan {
+  sourceOrder: {
+    orderNumber: string;
+    placedAt: Date;
+    restaurantName: string;
+    totalAmount?: number;
+  };
+  // Callers add the token from login to these before running them
+  addItems?: Omit<AddItemsInput, 'token'>;
+  address?: DeliveryAddressInput;
+  checkout: Omit<CheckoutInput, 'token'>;
+  unmatchedItems: UnmatchedReorderItem[];
+  steps: Array<{ tool: string; arguments: Record<string, any> }>;
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   status: 'success' | 'error' | 'pending';
@@ -60,50 +262,331 @@ export interface ApiResponse<T = any> {
 }
 
 // Zod schemas for validation
-export const AddItemsSchema = z.object({
-  sessionId: z.string().uuid('Invalid session ID'),
-  restaurantName: z.string().min(1, 'Restaurant name is required'),
-  items: z
+export const OrderItemSchema = z.object({
+  name: z.string().min(1, 'Item name is required'),
+  quantity: z.number().int().positive('Quantity must be a positive integer'),
+  price: z.number().positive().optional(),
+  options: z
+    .object({
+      size: z.string().optional(),
+      extras: z.array(z.string()).optional(),
+      specialInstructions: z.string().max(500).optional(),
+    })
+    .optional(),
+  modifiers: z
     .array(
       z.object({
-        name: z.string().min(1, 'Item name is required'),
-        quantity: z.number().int().positive('Quantity must be a positive integer'),
-        price: z.number().positive().optional(),
-        options: z
-          .object({
-            size: z.string().optional(),
-            extras: z.array(z.string()).optional(),
-            specialInstructions: z.string().max(500).optional(),
-          })
-          .optional(),
+        group: z.string().min(1, 'Modifier group is required'),
+        selections: z.array(z.string().min(1)).min(1, 'At least one selection is required'),
       })
     )
-    .min(1, 'At least one item is required'),
+    .optional(),
 });
 
-export const DeliveryAddressSchema = z.object({
+// JWT issued by ubereats_login, required by tools that act on the user's account
+const SessionTokenSchema = z.string().min(1, 'Token from login is required');
+
+export const AddItemsSchema = z.object({
   sessionId: z.string().uuid('Invalid session ID'),
-  address: z.object({
+  token: SessionTokenSchema,
+  restaurantName: z.string().min(1, 'Restaurant name is required'),
+  items: z.array(OrderItemSchema).min(1, 'At least one item is required'),
+  replaceCart: z.boolean().default(false),
+});
+
+interface CountryAddressRules {
+  regionLabel: string;
+  regionRequired: boolean;
+  regions?: string[];
+  regionPattern?: RegExp;
+  regionMessage?: string;
+  postcode: RegExp;
+  postcodeMessage: string;
+}
+
+// Per-country rules for the region (state) and postcode (zipCode) fields
+export const ADDRESS_RULES: Record<AddressCountry, CountryAddressRules> = {
+  US: {
+    regionLabel: 'State',
+    regionRequired: true,
+    regionPattern: /^.{2}$/,
+    regionMessage: 'State must be 2 characters',
+    postcode: /^\d{5}(-\d{4})?$/,
+    postcodeMessage: 'Invalid ZIP code format',
+  },
+  AU: {
+    regionLabel: 'State',
+    regionRequired: true,
+    regions: ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'],
+    regionMessage: 'Australian state must be one of ACT, NSW, NT, QLD, SA, TAS, VIC, WA',
+    postcode: /^\d{4}$/,
+    postcodeMessage: 'Australian postcode must be 4 digits',
+  },
+  CA: {
+    regionLabel: 'Province',
+    regionRequired: true,
+    regions: ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'],
+    regionMessage: 'Canadian province must be a 2-letter code such as ON, QC or BC',
+    postcode: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i,
+    postcodeMessage: 'Canadian postal code must look like K1A 0B1',
+  },
+  GB: {
+    regionLabel: 'County',
+    regionRequired: false,
+    postcode: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+    postcodeMessage: 'UK postcode must look like SW1A 1AA',
+  },
+};
+
+export const AddressSchema = z
+  .object({
     street: z.string().min(1, 'Street address is required'),
     city: z.string().min(1, 'City is required'),
-    state: z.string().length(2, 'State must be 2 characters'),
-    zipCode: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format'),
+    state: z.string().optional(),
+    zipCode: z.string(),
+    country: z
+      .preprocess(
+        (value) => {
+          if (typeof value !== 'string') {
+            return value;
+          }
+          const code = value.trim().toUpperCase();
+          return code === 'UK' ? 'GB' : code;
+        },
+        z.enum(['US', 'AU', 'CA', 'GB'], {
+          errorMap: () => ({ message: 'Country must be one of US, AU, CA or GB (UK)' }),
+        })
+      )
+      .optional(),
     aptSuite: z.string().optional(),
     deliveryInstructions: z.string().max(500).optional(),
     latitude: z.number().min(-90).max(90).optional(),
     longitude: z.number().min(-180).max(180).optional(),
-  }),
+  })
+  .superRefine((address, ctx) => {
+    const rules = ADDRESS_RULES[address.country ?? 'US'];
+    const region = address.state;
+
+    if (!region) {
+      if (rules.regionRequired) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['state'],
+          message: `${rules.regionLabel} is required`,
+        });
+      }
+    } else if (
+      (rules.regions && !rules.regions.includes(region.toUpperCase())) ||
+      (rules.regionPattern && !rules.regionPattern.test(region))
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['state'],
+        message: rules.regionMessage ?? `Invalid ${rules.regionLabel.toLowerCase()}`,
+      });
+    }
+
+    if (!rules.postcode.test(address.zipCode)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['zipCode'],
+        message: rules.postcodeMessage,
+      });
+    }
+  })
+  .transform((address) =>
+    // US addresses are passed through untouched; other countries get canonical casing
+    !address.country || address.country === 'US'
+      ? address
+      : {
+          ...address,
+          state:
+            address.state && ADDRESS_RULES[address.country].regions
+              ? address.state.toUpperCase()
+              : address.state,
+          zipCode: address.zipCode.toUpperCase(),
+        }
+  );
+
+export const DeliveryAddressSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  address: AddressSchema,
+});
+
+/**
+ * Case-insensitive user-chosen name such as "home" or "corporate-amex"
+ */
+const labelSchema = (name: string) =>
+  z
+    .string()
+    .trim()
+    .min(1, `${name} is required`)
+    .max(50, `${name} must be at most 50 characters`)
+    .regex(
+      /^[a-zA-Z0-9][a-zA-Z0-9 _-]*$/,
+      `Use letters, numbers, spaces, "-" or "_" in ${name.toLowerCase()}s`
+    )
+    .transform((label) => label.toLowerCase());
+
+export const AddressLabelSchema = labelSchema('Address label');
+
+export const PaymentAliasSchema = labelSchema('Payment alias');
+
+export const SetAddressSchema = z
+  .object({
+    sessionId: z.string().uuid('Invalid session ID'),
+    token: SessionTokenSchema,
+    address: AddressSchema.optional(),
+    addressLabel: AddressLabelSchema.optional(),
+  })
+  .refine((input) => !(input.address && input.addressLabel), {
+    message: 'Provide either address or addressLabel, not both',
+    path: ['addressLabel'],
+  });
+
+export const SaveAddressSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  label: AddressLabelSchema,
+  address: AddressSchema,
+});
+
+export const DeleteAddressSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  label: AddressLabelSchema,
 });
 
 export const CheckoutSchema = z.object({
   sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
   paymentMethodId: z.string().optional(),
   tipAmount: z.number().min(0, 'Tip amount cannot be negative').optional(),
   promoCode: z.string().optional(),
   scheduleTime: z.string().datetime().optional(),
   contactlessDelivery: z.boolean().optional(),
+  idempotencyKey: z
+    .string()
+    .min(8, 'Idempotency key must be at least 8 characters')
+    .max(128, 'Idempotency key must be at most 128 characters')
+    .optional(),
+});
+
+export const CheckoutPreviewSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  paymentMethodId: z.string().optional(),
+  tipAmount: z.number().min(0, 'Tip amount cannot be negative').optional(),
+  promoCode: z.string().optional(),
+});
+
+export const SearchRestaurantsSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  query: z.string().min(1, 'Search query is required').max(200),
+  cuisine: z.string().min(1).optional(),
+  maxPriceTier: z.number().int().min(1).max(4).optional(),
+  minRating: z.number().min(0).max(5).optional(),
+  maxDeliveryFee: z.number().min(0).optional(),
+  limit: z.number().int().positive().max(50).default(20),
+});
+
+export const GetMenuSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  restaurantName: z.string().min(1, 'Restaurant name is required'),
+  refresh: z.boolean().optional().default(false),
+});
+
+export const CheckAvailabilitySchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  restaurantName: z.string().min(1).optional(),
+});
+
+export const SetPaymentAliasSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  alias: PaymentAliasSchema,
+  paymentMethodId: z.string().min(1, 'Payment method ID is required'),
+});
+
+export const DeletePaymentAliasSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  alias: PaymentAliasSchema,
+});
+
+export const ViewCartSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  refresh: z.boolean().optional().default(false),
+});
+
+export const UpdateCartItemSchema = z
+  .object({
+    sessionId: z.string().uuid('Invalid session ID'),
+    token: SessionTokenSchema,
+    lineId: z.string().uuid('Invalid cart line ID'),
+    quantity: z.number().int().positive('Quantity must be a positive integer').optional(),
+    options: OrderItemSchema.shape.options,
+  })
+  .refine((input) => input.quantity !== undefined || input.options !== undefined, {
+    message: 'Provide a new quantity or options',
+    path: ['quantity'],
+  });
+
+export const RemoveCartItemSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  lineId: z.string().uuid('Invalid cart line ID'),
+});
+
+export const OrderStatusSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  orderNumber: z.string().min(1, 'Order number is required'),
+});
+
+export const CancelOrderSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  orderNumber: z.string().min(1, 'Order number is required'),
+  reason: z.string().max(500).optional(),
+  confirm: z.boolean().default(false),
+});
+
+export const ListOrdersSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  page: z.number().int().positive().default(1),
+  pageSize: z.number().int().positive().max(50).default(10),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+export const ReorderSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+  token: SessionTokenSchema,
+  orderNumber: z.string().min(1).optional(),
 });
 
 export type AddItemsInput = z.infer<typeof AddItemsSchema>;
 export type DeliveryAddressInput = z.infer<typeof DeliveryAddressSchema>;
+export type SetAddressInput = z.infer<typeof SetAddressSchema>;
+export type SaveAddressInput = z.infer<typeof SaveAddressSchema>;
+export type DeleteAddressInput = z.infer<typeof DeleteAddressSchema>;
 export type CheckoutInput = z.infer<typeof CheckoutSchema>;
+export type CheckoutPreviewInput = z.infer<typeof CheckoutPreviewSchema>;
+export type SearchRestaurantsInput = z.infer<typeof SearchRestaurantsSchema>;
+export type GetMenuInput = z.infer<typeof GetMenuSchema>;
+export type CheckAvailabilityInput = z.infer<typeof CheckAvailabilitySchema>;
+export type SetPaymentAliasInput = z.infer<typeof SetPaymentAliasSchema>;
+export type DeletePaymentAliasInput = z.infer<typeof DeletePaymentAliasSchema>;
+export type ViewCartInput = z.infer<typeof ViewCartSchema>;
+export type UpdateCartItemInput = z.infer<typeof UpdateCartItemSchema>;
+export type RemoveCartItemInput = z.infer<typeof RemoveCartItemSchema>;
+export type OrderStatusInput = z.infer<typeof OrderStatusSchema>;
+export type CancelOrderInput = z.infer<typeof CancelOrderSchema>;
+export type ListOrdersInput = z.infer<typeof ListOrdersSchema>;
+export type ReorderInput = z.infer<typeof ReorderSchema>;
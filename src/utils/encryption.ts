@@ -0,0 +1,112 @@
+/**
+ * Authenticated Encryption Utility (AES-256-GCM) with versioned keys
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { securityConfig } from '../config/environment.js';
+import { AppError } from './errorHandler.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+export interface EncryptedPayload {
+  v: number; // Version of the key the payload was encrypted with
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Derive a 256-bit key from the configured key string
+ */
+function deriveKey(key: string): Buffer {
+  return createHash('sha256').update(key, 'utf8').digest();
+}
+
+export class FieldCipher {
+  private readonly keys = new Map<number, Buffer>();
+  private readonly currentKey: Buffer;
+
+  constructor(
+    readonly keyVersion: number,
+    currentKey: string,
+    previousKeys: Record<string, string> = {}
+  ) {
+    for (const [version, key] of Object.entries(previousKeys)) {
+      this.keys.set(Number(version), deriveKey(key));
+    }
+    this.currentKey = deriveKey(currentKey);
+    this.keys.set(keyVersion, this.currentKey);
+  }
+
+  /**
+   * Encrypt a JSON-serializable value with the current key.
+   * Associated data (e.g. a record ID) must be passed again to decrypt.
+   */
+  encrypt(value: unknown, associatedData?: string): EncryptedPayload {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.currentKey, iv);
+    if (associatedData !== undefined) {
+      cipher.setAAD(Buffer.from(associatedData, 'utf8'));
+    }
+
+    const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+
+    return {
+      v: this.keyVersion,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  /**
+   * Decrypt a payload with the key version it records
+   */
+  decrypt<T>(payload: EncryptedPayload, associatedData?: string): T {
+    const key = this.keys.get(payload.v);
+    if (!key) {
+      throw new AppError(
+        `No encryption key configured for key version ${payload.v}`,
+        500,
+        'ENCRYPTION_KEY_MISSING'
+      );
+    }
+
+    try {
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(payload.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+      if (associatedData !== undefined) {
+        decipher.setAAD(Buffer.from(associatedData, 'utf8'));
+      }
+
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(payload.data, 'base64')),
+        decipher.final(),
+      ]);
+
+      return JSON.parse(plaintext.toString('utf8')) as T;
+    } catch {
+      // GCM authentication failure: wrong key or tampered data
+      throw new AppError('Failed to decrypt data', 500, 'DECRYPTION_FAILED');
+    }
+  }
+
+  /**
+   * Whether a payload was encrypted with an older key
+   */
+  isStale(payload: EncryptedPayload): boolean {
+    return payload.v !== this.keyVersion;
+  }
+}
+
+/**
+ * Create a cipher from ENCRYPTION_KEY, ENCRYPTION_KEY_VERSION and ENCRYPTION_PREVIOUS_KEYS
+ */
+export function createFieldCipher(): FieldCipher {
+  return new FieldCipher(
+    securityConfig.encryptionKeyVersion,
+    securityConfig.encryptionKey,
+    securityConfig.previousEncryptionKeys
+  );
+}
@@ -55,6 +55,15 @@ export class RateLimitError extends AppError {
   }
 }
 
+export type SpendingLimit = 'per_order' | 'daily' | 'weekly' | 'tip_percent';
+
+export class SpendingLimitError extends AppError {
+  constructor(limit: SpendingLimit, message: string, details?: any) {
+    super(message, 403, `${limit.toUpperCase()}_LIMIT_EXCEEDED`, { limit, ...details });
+    this.name = 'SpendingLimitError';
+  }
+}
+
 export class ExternalServiceError extends AppError {
   constructor(service: string, originalError?: any) {
     super(`External service error: ${service}`, 503, 'EXTERNAL_SERVICE_ERROR', originalError);
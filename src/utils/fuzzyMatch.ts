@@ -0,0 +1,96 @@
+/**
+ * Fuzzy String Matching Utility
+ */
+
+// Minimum similarity for a candidate to be offered as a suggestion
+const SUGGESTION_THRESHOLD = 0.6;
+
+/**
+ * Normalise a name for comparison: case, accents, punctuation and spacing are ignored
+ */
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a.length === 0) {
+    return b.length;
+  }
+  if (b.length === 0) {
+    return a.length;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (current[j - 1] ?? 0) + 1,
+        (previous[j] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Similarity between 0 and 1 of two names after normalisation
+ */
+export function similarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+
+  if (!left || !right) {
+    return 0;
+  }
+  if (left === right) {
+    return 1;
+  }
+
+  const distance = 1 - editDistance(left, right) / Math.max(left.length, right.length);
+
+  // "big mac" should still suggest "Big Mac Meal"
+  const contained = left.includes(right) || right.includes(left) ? 0.8 : 0;
+
+  return Math.max(distance, contained);
+}
+
+/**
+ * Find the candidate equal to the value once normalised (e.g. differing only in case).
+ * A value that normalises to nothing (only punctuation) never matches.
+ */
+export function findExactMatch(value: string, candidates: string[]): string | undefined {
+  const normalized = normalizeName(value);
+  if (!normalized) {
+    return undefined;
+  }
+  return candidates.find((candidate) => normalizeName(candidate) === normalized);
+}
+
+/**
+ * Rank candidates similar enough to the value to be offered as "did you mean" suggestions
+ */
+export function suggestMatches(value: string, candidates: string[], limit: number = 3): string[] {
+  return candidates
+    .map((candidate) => ({ candidate, score: similarity(value, candidate) }))
+    .filter(({ score }) => score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -45,7 +45,15 @@ export const logger = pino({
     env: serverConfig.env,
   },
   redact: {
-    paths: ['password', 'token', 'sessionId', 'cookies', 'authorization'],
+    paths: [
+      'password',
+      'token',
+      'sessionId',
+      'cookies',
+      'authorization',
+      'args.password',
+      'args.token',
+    ],
     censor: '[REDACTED]',
   },
 });
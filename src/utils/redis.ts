@@ -0,0 +1,48 @@
+/**
+ * Shared Redis Client
+ */
+
+import { Redis } from 'ioredis';
+import { redisConfig } from '../config/environment.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('redis');
+
+/**
+ * Create a Redis client with retry and logging handlers
+ */
+export function createRedisClient(): Redis {
+  const client = new Redis({
+    host: redisConfig.host,
+    port: redisConfig.port,
+    password: redisConfig.password,
+    db: redisConfig.db,
+    retryStrategy: (times: number) => {
+      const delay = Math.min(times * 50, 2000);
+      logger.warn({ times, delay }, 'Redis connection retry');
+      return delay;
+    },
+    reconnectOnError: (err: Error) => {
+      logger.error({ err }, 'Redis reconnection error');
+      return true;
+    },
+  });
+
+  // Redis event handlers
+  client.on('connect', () => {
+    logger.info('Redis connected successfully');
+  });
+
+  client.on('error', (err: Error) => {
+    logger.error({ err }, 'Redis error');
+  });
+
+  client.on('close', () => {
+    logger.warn('Redis connection closed');
+  });
+
+  return client;
+}
+
+// Export singleton instance shared by all services
+export const redis = createRedisClient();
@@ -0,0 +1,44 @@
+/**
+ * MCP server tests
+ */
+
+import { describe, test, expect, afterAll } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { UberEatsMCPServer } from '../../src/server/mcpServer.js';
+import { sessionService } from '../../src/services/sessionService.js';
+
+describe('MCP Server', () => {
+  afterAll(async () => {
+    await sessionService.cleanup();
+  });
+
+  test('should URI-decode resource template variables', async () => {
+    const mcpServer = new UberEatsMCPServer();
+    const received: Record<string, string>[] = [];
+
+    mcpServer.registerResourceTemplate(
+      'ubereats://restaurants/{name}/menu{?sessionId}',
+      'Restaurant Menu',
+      'Cached menu for a restaurant',
+      async (params) => {
+        received.push(params);
+        return {};
+      }
+    );
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.createServer().connect(serverTransport);
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    await client.readResource({
+      uri: 'ubereats://restaurants/Pizza%20Hut/menu?sessionId=session%2F1',
+    });
+
+    expect(received).toEqual([{ name: 'Pizza Hut', sessionId: 'session/1' }]);
+
+    await client.close();
+  });
+});
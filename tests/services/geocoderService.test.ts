@@ -0,0 +1,98 @@
+/**
+ * Geocoder service tests
+ */
+
+import path from 'node:path';
+import { describe, test, expect } from '@jest/globals';
+import {
+  GeocoderService,
+  OfflineGeocoder,
+  normalizeAddress,
+} from '../../src/services/geocoderService.js';
+
+const lookupFile = path.join(process.cwd(), 'tests/fixtures/geocoder-lookup.json');
+
+describe('Geocoder Service', () => {
+  const service = new GeocoderService(new OfflineGeocoder(lookupFile));
+
+  test('should normalise whitespace, state casing and US street suffixes', () => {
+    const address = normalizeAddress({
+      street: '  1600   Amphitheatre Parkway ',
+      city: 'mountain view ',
+      state: 'ca',
+      zipCode: '94043',
+    });
+
+    expect(address.street).toBe('1600 Amphitheatre Pkwy');
+    expect(address.city).toBe('mountain view');
+    expect(address.state).toBe('CA');
+  });
+
+  test('should fill coordinates from the lookup file', async () => {
+    const result = await service.resolve({
+      street: '1600 Amphitheatre Parkway',
+      city: 'mountain view',
+      state: 'CA',
+      zipCode: '94043',
+    });
+
+    expect(result.geocoded).toBe(true);
+    expect(result.provider).toBe('offline');
+    expect(result.address.latitude).toBe(37.422);
+    expect(result.address.longitude).toBe(-122.0841);
+    expect(result.address.city).toBe('Mountain View');
+  });
+
+  test('should match non-US addresses by country', async () => {
+    const result = await service.resolve({
+      street: '1 Martin Pl',
+      city: 'Sydney',
+      state: 'NSW',
+      zipCode: '2000',
+      country: 'AU',
+    });
+
+    expect(result.geocoded).toBe(true);
+    expect(result.address.latitude).toBe(-33.8675);
+  });
+
+  test('should return the normalised address when not found', async () => {
+    const result = await service.resolve({
+      street: '1 Nowhere Road',
+      city: 'Anytown',
+      state: 'CA',
+      zipCode: '90210',
+    });
+
+    expect(result.geocoded).toBe(false);
+    expect(result.address.street).toBe('1 Nowhere Rd');
+    expect(result.address.latitude).toBeUndefined();
+  });
+
+  test('should keep coordinates supplied by the caller', async () => {
+    const result = await service.resolve({
+      street: '1600 Amphitheatre Pkwy',
+      city: 'Mountain View',
+      state: 'CA',
+      zipCode: '94043',
+      latitude: 1,
+      longitude: 2,
+    });
+
+    expect(result.geocoded).toBe(false);
+    expect(result.address.latitude).toBe(1);
+  });
+
+  test('should not fail when the lookup file is missing', async () => {
+    const missing = new GeocoderService(new OfflineGeocoder('/nonexistent/lookup.json'));
+    const result = await missing.resolve({
+      street: '1 Main St',
+      city: 'Anytown',
+      state: 'CA',
+      zipCode: '90210',
+    });
+
+    expect(result.geocoded).toBe(false);
+    expect(result.address.street).toBe('1 Main St');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Payment service tests
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { PaymentService } from '../../src/services/paymentService.js';
+import { redis } from '../../src/utils/redis.js';
+
+describe('Payment Service', () => {
+  const service = new PaymentService();
+  const session = { id: 'session-1', username: 'user@example.com' } as any;
+  const hget = redis.hget as unknown as jest.Mock<(...args: any[]) => Promise<string | null>>;
+  const hgetall = redis.hgetall as unknown as jest.Mock<
+    (...args: any[]) => Promise<Record<string, string>>
+  >;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    jest
+      .spyOn(service, 'listPaymentMethods')
+      .mockResolvedValue([{ id: 'card-abc', type: 'card', isDefault: true, display: 'card' }]);
+  });
+
+  test('should resolve a saved alias', async () => {
+    hget.mockResolvedValueOnce(JSON.stringify({ alias: 'work', paymentMethodId: 'card-abc' }));
+
+    await expect(service.resolvePaymentMethodId(session, 'Work')).resolves.toBe('card-abc');
+    expect(service.listPaymentMethods).not.toHaveBeenCalled();
+  });
+
+  test('should accept an ID of one of the account payment methods', async () => {
+    hget.mockResolvedValueOnce(null);
+
+    await expect(service.resolvePaymentMethodId(session, 'card-abc')).resolves.toBe('card-abc');
+  });
+
+  test('should reject a value that is neither an alias nor a known ID', async () => {
+    hget.mockResolvedValueOnce(null);
+    hgetall.mockResolvedValueOnce({
+      work: JSON.stringify({ alias: 'work', paymentMethodId: 'card-abc' }),
+    });
+
+    await expect(service.resolvePaymentMethodId(session, 'visa2')).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { aliases: ['work'], paymentMethodIds: ['card-abc'] },
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Spending service tests
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { SpendingService } from '../../src/services/spendingService.js';
+import { SpendingLimitError } from '../../src/utils/errorHandler.js';
+import { redis } from '../../src/utils/redis.js';
+
+describe('Spending Service', () => {
+  const service = new SpendingService();
+  const evalScript = redis.eval as unknown as jest.Mock<(...args: any[]) => Promise<unknown>>;
+  const multi = redis.multi as unknown as jest.Mock<() => unknown>;
+  const zrem = redis.zrem as unknown as jest.Mock<(...args: any[]) => Promise<number>>;
+
+  const setLimits = (limits: Partial<ReturnType<SpendingService['getLimits']>>) => {
+    jest
+      .spyOn(service, 'getLimits')
+      .mockReturnValue({ perOrder: 0, daily: 0, weekly: 0, maxTipPercent: 0, ...limits });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  test('should refuse a tip it cannot compare with the subtotal', async () => {
+    setLimits({ maxTipPercent: 20 });
+
+    await expect(
+      service.reserveSpend('user@example.com', { total: 30, tip: 5 })
+    ).rejects.toMatchObject({ code: 'SPENDING_CHECK_FAILED' });
+    expect(evalScript).not.toHaveBeenCalled();
+  });
+
+  test('should enforce the per-order limit before reserving', async () => {
+    setLimits({ perOrder: 50 });
+
+    await expect(service.reserveSpend('user@example.com', { total: 75 })).rejects.toMatchObject({
+      code: 'PER_ORDER_LIMIT_EXCEEDED',
+    });
+    expect(evalScript).not.toHaveBeenCalled();
+  });
+
+  test('should reserve against the rolling limits in cents', async () => {
+    setLimits({ daily: 100, weekly: 300 });
+    evalScript.mockResolvedValueOnce(['', 0]);
+
+    const reservation = await service.reserveSpend('user@example.com', { total: 23.45 });
+
+    expect(reservation).toMatch(/^pending-.+:23\.45$/);
+    const args = evalScript.mock.calls[0]!;
+    expect(args.slice(6, 10)).toEqual([10000, 30000, 2345, reservation]);
+  });
+
+  test('should reject an order the daily window cannot absorb', async () => {
+    setLimits({ daily: 100 });
+    evalScript.mockResolvedValueOnce(['daily', 9000]);
+
+    const attempt = service.reserveSpend('user@example.com', { total: 20 });
+
+    await expect(attempt).rejects.toBeInstanceOf(SpendingLimitError);
+    await expect(attempt).rejects.toMatchObject({
+      code: 'DAILY_LIMIT_EXCEEDED',
+      details: { currentSpend: 90, attempted: 20 },
+    });
+  });
+
+  test('should swap the reservation for the placed order on confirm', async () => {
+    const pipeline: Record<string, jest.Mock<(...args: any[]) => unknown>> = {};
+    for (const command of ['zrem', 'zadd', 'pexpire']) {
+      pipeline[command] = jest.fn(() => pipeline);
+    }
+    pipeline.exec = jest.fn(async () => []);
+    multi.mockReturnValueOnce(pipeline);
+
+    await service.confirmSpend('user@example.com', 'pending-abc:25', 'ORDER-123', 24.5);
+
+    expect(pipeline.zrem).toHaveBeenCalledWith(expect.any(String), 'pending-abc:25');
+    expect(pipeline.zadd).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.any(Number),
+      'ORDER-123:24.5'
+    );
+    expect(pipeline.exec).toHaveBeenCalled();
+  });
+
+  test('should drop the reservation on release', async () => {
+    await service.releaseSpend('user@example.com', 'pending-abc:25');
+
+    expect(zrem).toHaveBeenCalledWith(
+      expect.stringContaining('user@example.com'),
+      'pending-abc:25'
+    );
+  });
+});
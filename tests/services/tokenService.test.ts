@@ -0,0 +1,62 @@
+/**
+ * Token service tests
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import { TokenService } from '../../src/services/tokenService.js';
+import { redis } from '../../src/utils/redis.js';
+
+describe('Token Service', () => {
+  const oldSecret = 'old-jwt-secret-at-least-32-characters';
+  const newSecret = 'new-jwt-secret-at-least-32-characters';
+  const exists = redis.exists as unknown as jest.Mock<() => Promise<number>>;
+  const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+
+  test('should sign tokens with a key ID and token ID', async () => {
+    const service = new TokenService('primary', newSecret);
+    const token = service.sign('session-1', 'user@example.com', expiresAt);
+    const decoded = jwt.decode(token, { complete: true });
+
+    expect(decoded?.header.kid).toBe('primary');
+    expect((decoded?.payload as jwt.JwtPayload).jti).toBeDefined();
+
+    exists.mockResolvedValueOnce(0);
+    const claims = await service.verify(token);
+    expect(claims.sessionId).toBe('session-1');
+  });
+
+  test('should accept tokens signed with a previous key during rotation', async () => {
+    const token = new TokenService('2026-01', oldSecret).sign(
+      'session-1',
+      'user@example.com',
+      expiresAt
+    );
+    const rotated = new TokenService('2026-02', newSecret, { '2026-01': oldSecret });
+
+    exists.mockResolvedValueOnce(0);
+    await expect(rotated.verify(token)).resolves.toMatchObject({ sessionId: 'session-1' });
+    await expect(new TokenService('2026-02', newSecret).verify(token)).rejects.toThrow(
+      'Invalid token'
+    );
+  });
+
+  test('should reject revoked tokens', async () => {
+    const service = new TokenService('primary', newSecret);
+    const token = service.sign('session-1', 'user@example.com', expiresAt);
+
+    exists.mockResolvedValueOnce(1);
+    await expect(service.verify(token)).rejects.toThrow('Token has been revoked');
+  });
+
+  test('should expire tokens with the session they were issued for', () => {
+    const service = new TokenService('primary', newSecret);
+    const later = new Date(expiresAt.getTime() + 30 * 60 * 1000);
+
+    const payload = jwt.decode(service.sign('session-1', 'user@example.com', expiresAt));
+    const extended = jwt.decode(service.sign('session-1', 'user@example.com', later));
+
+    expect((payload as jwt.JwtPayload).exp).toBe(Math.floor(expiresAt.getTime() / 1000));
+    expect((extended as jwt.JwtPayload).exp).toBe(Math.floor(later.getTime() / 1000));
+  });
+});
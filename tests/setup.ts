@@ -7,13 +7,13 @@ import { jest } from '@jest/globals';
 // Set test environment
 process.env.NODE_ENV = 'test';
 process.env.JWT_SECRET = 'test-jwt-secret-for-testing-only';
-process.env.SESSION_SECRET = 'test-session-secret-for-testing';
+process.env.SESSION_SECRET = 'test-session-secret-for-testing-only';
 process.env.ENCRYPTION_KEY = '82ce6d635cc50a6c118ebeaf8187af7f';
 process.env.REDIS_HOST = 'localhost';
 process.env.REDIS_PORT = '6379';
 process.env.REDIS_DB = '1'; // Use different DB for tests
 process.env.N8N_BASE_URL = 'http://localhost:5678';
-process.env.LOG_LEVEL = 'silent';
+process.env.LOG_LEVEL = 'fatal';
 
 // Mock Redis if not available in test environment
 jest.mock('ioredis', () => {
@@ -21,16 +21,35 @@ jest.mock('ioredis', () => {
     get: jest.fn(),
     set: jest.fn(),
     setex: jest.fn(),
+    ttl: jest.fn(),
     del: jest.fn(),
+    exists: jest.fn(),
     keys: jest.fn(),
+    scan: jest.fn(),
+    eval: jest.fn(),
     sadd: jest.fn(),
     srem: jest.fn(),
     smembers: jest.fn(),
+    hget: jest.fn(),
+    hset: jest.fn(),
+    hmget: jest.fn(),
+    hgetall: jest.fn(),
+    hdel: jest.fn(),
+    zadd: jest.fn(),
+    zcount: jest.fn(),
+    zrem: jest.fn(),
+    zrevrangebyscore: jest.fn(),
+    multi: jest.fn(),
     quit: jest.fn(),
+    zrevrange: jest.fn(),
+    zrangebyscore: jest.fn(),
+    zremrangebyscore: jest.fn(),
+    pexpire: jest.fn(),
     on: jest.fn(),
   };
   
-  return jest.fn(() => mockRedis);
+  const Redis = jest.fn(() => mockRedis);
+  return { __esModule: true, default: Redis, Redis };
 });
 
 // Mock axios for n8n service
@@ -0,0 +1,147 @@
+/**
+ * Checkout tool idempotency tests
+ */
+
+import { describe, test, expect, beforeEach, afterAll, jest } from '@jest/globals';
+import { checkoutHandler } from '../../src/tools/checkout.js';
+import { sessionService } from '../../src/services/sessionService.js';
+import { n8nService } from '../../src/services/n8nService.js';
+import { orderService } from '../../src/services/orderService.js';
+import { spendingService } from '../../src/services/spendingService.js';
+import { SessionStatus } from '../../src/types/session.js';
+import { CircuitBreakerError, ExternalServiceError } from '../../src/utils/errorHandler.js';
+import { redis } from '../../src/utils/redis.js';
+
+const sessionId = '5f0c6f6e-8a9b-4c1d-9e2f-3a4b5c6d7e8f';
+const args = {
+  sessionId,
+  token: 'jwt-from-login',
+  tipAmount: 3,
+  idempotencyKey: 'checkout-key-0001',
+};
+
+const session = {
+  id: sessionId,
+  username: 'test@example.com',
+  status: SessionStatus.ACTIVE,
+  cart: { restaurantName: 'Test Kitchen', items: [] },
+  orderNumbers: [],
+} as any;
+
+const placed = {
+  status: 'success',
+  orderConfirmationNumber: 'ORDER-123',
+  estimatedDeliveryTime: '30 min',
+  totals: { total: 25 },
+} as any;
+
+describe('Checkout Tool idempotency', () => {
+  const store = new Map<string, string>();
+  let checkout: jest.SpiedFunction<typeof n8nService.checkout>;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    store.clear();
+
+    const mockRedis = redis as any;
+    mockRedis.set.mockImplementation(async (key: string, value: string, ...options: any[]) => {
+      if (options.includes('NX') && store.has(key)) return null;
+      store.set(key, value);
+      return 'OK';
+    });
+    mockRedis.setex.mockImplementation(async (key: string, _ttl: number, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    });
+    mockRedis.get.mockImplementation(async (key: string) => store.get(key) ?? null);
+    mockRedis.del.mockImplementation(async (key: string) => (store.delete(key) ? 1 : 0));
+
+    jest.spyOn(sessionService, 'authenticate').mockResolvedValue(session);
+    jest.spyOn(sessionService, 'updateSession').mockResolvedValue(session);
+    jest.spyOn(orderService, 'saveOrder').mockResolvedValue(undefined as any);
+    jest.spyOn(spendingService, 'hasAmountLimits').mockReturnValue(false);
+    jest.spyOn(spendingService, 'recordSpend').mockResolvedValue(undefined);
+    checkout = jest.spyOn(n8nService, 'checkout');
+  });
+
+  afterAll(async () => {
+    await sessionService.cleanup();
+  });
+
+  test('should replay a completed checkout without calling n8n again', async () => {
+    checkout.mockResolvedValue(placed);
+
+    const first = await checkoutHandler(args);
+    const second = await checkoutHandler(args);
+
+    expect(first.status).toBe('success');
+    expect(second.data.orderConfirmationNumber).toBe('ORDER-123');
+    expect(second.idempotentReplay).toBe(true);
+    expect(checkout).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep the key completed when local bookkeeping fails', async () => {
+    checkout.mockResolvedValue(placed);
+    jest.spyOn(orderService, 'saveOrder').mockRejectedValue(new Error('Redis unavailable'));
+
+    const first = await checkoutHandler(args);
+    const second = await checkoutHandler(args);
+
+    expect(first.status).toBe('error');
+    expect(second.status).toBe('success');
+    expect(second.idempotentReplay).toBe(true);
+    expect(checkout).toHaveBeenCalledTimes(1);
+  });
+
+  test('should close the key as outcome unknown when n8n fails after submission', async () => {
+    checkout.mockRejectedValue(new ExternalServiceError('n8n', new Error('socket hang up')));
+
+    const first = await checkoutHandler(args);
+    const second = await checkoutHandler(args);
+
+    expect(first.status).toBe('error');
+    expect(second.code).toBe('CHECKOUT_OUTCOME_UNKNOWN');
+    expect(second.details.reason).toBe('External service error: n8n');
+    expect(checkout).toHaveBeenCalledTimes(1);
+    expect(redis.setex).toHaveBeenCalledWith(
+      expect.stringContaining('checkout-key-0001'),
+      expect.any(Number),
+      expect.stringContaining('"status":"unknown"')
+    );
+  });
+
+  test('should release the key when the circuit breaker is open', async () => {
+    checkout.mockRejectedValueOnce(new CircuitBreakerError('n8n'));
+    checkout.mockResolvedValueOnce(placed);
+
+    const first = await checkoutHandler(args);
+    const second = await checkoutHandler(args);
+
+    expect(first.status).toBe('error');
+    expect(second.status).toBe('success');
+    expect(second.idempotentReplay).toBeUndefined();
+    expect(checkout).toHaveBeenCalledTimes(2);
+  });
+
+  test('should store a failed checkout result', async () => {
+    checkout.mockResolvedValue({ status: 'error', message: 'Card declined' } as any);
+
+    const first = await checkoutHandler(args);
+    const second = await checkoutHandler(args);
+
+    expect(first.code).toBe('CHECKOUT_FAILED');
+    expect(second.code).toBe('CHECKOUT_FAILED');
+    expect(second.idempotentReplay).toBe(true);
+    expect(checkout).toHaveBeenCalledTimes(1);
+  });
+
+  test('should reject a reused key with different parameters', async () => {
+    checkout.mockResolvedValue(placed);
+
+    await checkoutHandler(args);
+    const second = await checkoutHandler({ ...args, tipAmount: 5 });
+
+    expect(second.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(checkout).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,14 +2,19 @@
  * Login tool tests
  */
 
-import { describe, test, expect, beforeEach, jest } from '@jest/globals';
-import { loginHandler } from '../../src/tools/login.js';
+import { describe, test, expect, beforeEach, afterAll, jest } from '@jest/globals';
+import { loginHandler, logoutHandler } from '../../src/tools/login.js';
+import { sessionService } from '../../src/services/sessionService.js';
 
 describe('Login Tool', () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
+  afterAll(async () => {
+    await sessionService.cleanup();
+  });
+
   test('should validate input schema', async () => {
     const result = await loginHandler({
       username: 'invalid-email',
@@ -17,14 +22,16 @@ describe('Login Tool', () => {
     });
 
     expect(result.status).toBe('error');
-    expect(result.message).toContain('validation');
+    expect(result.message).toBe('Validation failed');
+    expect(result.code).toBe('VALIDATION_ERROR');
   });
 
   test('should require username and password', async () => {
     const result = await loginHandler({});
 
     expect(result.status).toBe('error');
-    expect(result.message).toContain('validation');
+    expect(result.message).toBe('Validation failed');
+    expect(result.code).toBe('VALIDATION_ERROR');
   });
 
   test('should handle valid login input', async () => {
@@ -47,4 +54,13 @@ describe('Login Tool', () => {
 
     expect(result).toBeDefined();
   });
+
+  test('should require the login token to logout', async () => {
+    const result = await logoutHandler({
+      sessionId: '5f0c6f6e-8a9b-4c1d-9e2f-3a4b5c6d7e8f'
+    });
+
+    expect(result.status).toBe('error');
+    expect(result.details).toHaveProperty('token');
+  });
 });
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * Delivery address schema tests
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AddressSchema } from '../../src/types/ubereats.js';
+
+describe('Address Schema', () => {
+  const street = { street: '1 Main St', city: 'Anytown' };
+
+  test('should accept US addresses without a country', () => {
+    const address = { ...street, state: 'CA', zipCode: '90210-1234' };
+
+    expect(AddressSchema.parse(address)).toEqual(address);
+  });
+
+  test('should keep US ZIP and state rules', () => {
+    const result = AddressSchema.safeParse({ ...street, state: 'Calif', zipCode: '9021' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues.map((i) => i.message)).toEqual([
+        'State must be 2 characters',
+        'Invalid ZIP code format',
+      ]);
+    }
+  });
+
+  test('should validate Australian states and postcodes', () => {
+    expect(
+      AddressSchema.safeParse({ ...street, state: 'nsw', zipCode: '2000', country: 'AU' }).success
+    ).toBe(true);
+
+    const result = AddressSchema.safeParse({
+      ...street,
+      state: 'XX',
+      zipCode: '20000',
+      country: 'AU',
+    });
+    expect(result.success).toBe(false);
+  });
+
+  test('should validate and normalise Canadian postal codes', () => {
+    const address = AddressSchema.parse({
+      ...street,
+      state: 'on',
+      zipCode: 'k1a 0b1',
+      country: 'ca',
+    });
+
+    expect(address.country).toBe('CA');
+    expect(address.state).toBe('ON');
+    expect(address.zipCode).toBe('K1A 0B1');
+  });
+
+  test('should accept UK addresses without a county', () => {
+    const address = AddressSchema.parse({ ...street, zipCode: 'SW1A 1AA', country: 'UK' });
+
+    expect(address.country).toBe('GB');
+  });
+
+  test('should require a region where the country needs one', () => {
+    const result = AddressSchema.safeParse({ ...street, zipCode: 'K1A 0B1', country: 'CA' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Province is required');
+    }
+  });
+
+  test('should reject unsupported countries', () => {
+    expect(AddressSchema.safeParse({ ...street, zipCode: '10115', country: 'DE' }).success).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Field encryption tests
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { FieldCipher } from '../../src/utils/encryption.js';
+
+describe('Field Cipher', () => {
+  const oldKey = 'old-encryption-key-32-characters';
+  const newKey = 'new-encryption-key-32-characters';
+  const value = { cookies: { sid: 'abc' }, tokens: { accessToken: 'secret-token' } };
+
+  test('should round-trip values bound to associated data', () => {
+    const cipher = new FieldCipher(1, newKey);
+    const payload = cipher.encrypt(value, 'session-1');
+
+    expect(payload.v).toBe(1);
+    expect(payload.data).not.toContain('secret-token');
+    expect(cipher.decrypt(payload, 'session-1')).toEqual(value);
+  });
+
+  test('should reject tampered data and mismatched associated data', () => {
+    const cipher = new FieldCipher(1, newKey);
+    const payload = cipher.encrypt(value, 'session-1');
+    const tampered = { ...payload, data: Buffer.from('tampered').toString('base64') };
+
+    expect(() => cipher.decrypt(tampered, 'session-1')).toThrow('Failed to decrypt data');
+    expect(() => cipher.decrypt(payload, 'session-2')).toThrow('Failed to decrypt data');
+  });
+
+  test('should decrypt payloads written with a previous key', () => {
+    const payload = new FieldCipher(1, oldKey).encrypt(value);
+    const rotated = new FieldCipher(2, newKey, { '1': oldKey });
+
+    expect(rotated.isStale(payload)).toBe(true);
+    expect(rotated.decrypt(payload)).toEqual(value);
+    expect(rotated.isStale(rotated.encrypt(value))).toBe(false);
+  });
+
+  test('should fail when the key version is unknown', () => {
+    const payload = new FieldCipher(1, oldKey).encrypt(value);
+
+    expect(() => new FieldCipher(2, newKey).decrypt(payload)).toThrow(
+      'No encryption key configured for key version 1'
+    );
+  });
+});
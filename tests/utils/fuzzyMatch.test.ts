@@ -0,0 +1,52 @@
+/**
+ * Fuzzy matching tests
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  normalizeName,
+  editDistance,
+  findExactMatch,
+  suggestMatches,
+} from '../../src/utils/fuzzyMatch.js';
+
+describe('Fuzzy Match', () => {
+  const menu = ['Big Mac', 'Big Mac Meal', 'McChicken', 'French Fries', 'Crème Brûlée'];
+
+  test('should ignore case, accents and punctuation when normalising', () => {
+    expect(normalizeName('  Crème-Brûlée! ')).toBe('creme brulee');
+  });
+
+  test('should compute edit distance', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('same', 'same')).toBe(0);
+  });
+
+  test('should match names differing only in case', () => {
+    expect(findExactMatch('big mac', menu)).toBe('Big Mac');
+    expect(findExactMatch('creme brulee', menu)).toBe('Crème Brûlée');
+    expect(findExactMatch('Whopper', menu)).toBeUndefined();
+  });
+
+  test('should suggest near misses', () => {
+    expect(suggestMatches('McChiken', menu)[0]).toBe('McChicken');
+    expect(suggestMatches('fries', menu)).toContain('French Fries');
+  });
+
+  test('should keep non-Latin names distinct', () => {
+    expect(normalizeName('鸡肉饭')).toBe('鸡肉饭');
+    expect(findExactMatch('鸡肉饭', ['牛肉面', 'Pho'])).toBeUndefined();
+    expect(findExactMatch('鸡肉饭', ['牛肉面', '鸡肉饭'])).toBe('鸡肉饭');
+    expect(suggestMatches('Борщ', ['Пельмени', 'Pho'])).toEqual([]);
+  });
+
+  test('should never match names made only of punctuation', () => {
+    expect(findExactMatch('!!', ['--', 'Pho'])).toBeUndefined();
+    expect(suggestMatches('!!', ['--'])).toEqual([]);
+  });
+
+  test('should not suggest unrelated items', () => {
+    expect(suggestMatches('Sushi Platter', menu)).toEqual([]);
+  });
+});